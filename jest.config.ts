@@ -6,6 +6,12 @@ const config: Config = {
   testEnvironment: 'jsdom',
   roots: ['<rootDir>/tests'],
   testMatch: ['<rootDir>/tests/**/?(*.)+(test).ts'],
+  // Sources import siblings with the `.js` extension Node.js ESM requires
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+    // ts-jest turns `import()` into `require()`, which takes paths, not file URLs
+    '^file://(.*)$': '$1',
+  },
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
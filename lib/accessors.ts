@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Strict, explicitly typed environment variable accessors.
+ *
+ * Unlike {@link env}, which guesses the type of a value, each accessor parses
+ * exactly one type and throws an {@link EnvValidationError} on bad input
+ * instead of silently falling back to the default. `ZIP=01234` stays the
+ * string `'01234'` when read with `envString`.
+ *
+ * Every accessor accepts:
+ * - `default` - returned when the variable is not set or empty
+ * - `required` - throw when the variable is not set or empty
+ * - `strict` - reject surrounding whitespace and non-canonical spellings
+ *
+ * In the browser with the public guard enabled, reading a server-only variable
+ * throws an {@link EnvAccessError}.
+ *
+ * @example
+ * const port = envInt('PORT', { default: 3000 });         // number
+ * const debug = envBool('DEBUG');                          // boolean | undefined
+ * const apiUrl = envUrl('API_URL', { required: true });   // URL
+ * const level = envEnum('LOG_LEVEL', ['debug', 'info'], { default: 'info' });
+ *
+ * @module accessors
+ */
+
+import { EnvValidationError, redactReceived, rejectionReason } from './errors.js';
+import { assertPublicAccess } from './public.js';
+import { getEnvSource } from './sources.js';
+import { recordEnvAccess } from './tracking.js';
+import { safeMap, type SafeArrayOptions, type SafeMapOptions } from './utils.js';
+import {
+  bool,
+  int,
+  list,
+  num,
+  oneOf,
+  str,
+  url,
+  type UrlOptions,
+} from './validators.js';
+
+/**
+ * Options shared by all typed accessors.
+ */
+export interface EnvAccessorOptions<T> {
+  /** Value returned when the variable is not set or empty */
+  default?: T;
+  /** Throw when the variable is not set or empty */
+  required?: boolean;
+  /** Reject surrounding whitespace and non-canonical spellings */
+  strict?: boolean;
+}
+
+/**
+ * The return type of an accessor: `T` when a default is given or the variable
+ * is required, otherwise `T | undefined`.
+ */
+export type EnvAccessorResult<T, O> = O extends { default: T } | { required: true }
+  ? T
+  : T | undefined;
+
+/**
+ * Read a variable and convert it with `parse`, applying the shared options.
+ */
+const read = <T>(
+  key: string,
+  options: EnvAccessorOptions<T>,
+  expected: string,
+  parse: (raw: string) => T,
+): T | undefined => {
+  assertPublicAccess(key);
+  const raw = getEnvSource().get(key);
+  const found = raw !== undefined && raw !== '';
+  recordEnvAccess(key, {
+    found,
+    defaulted: !found && options.default !== undefined,
+  });
+
+  if (!found) {
+    if (options.default !== undefined) return options.default;
+    if (options.required) {
+      throw new EnvValidationError([{ key, reason: 'is required', expected }]);
+    }
+    return undefined;
+  }
+
+  const received = redactReceived(key, raw);
+  if (options.strict && raw.trim() !== raw) {
+    throw new EnvValidationError([
+      { key, reason: 'has leading or trailing whitespace', expected, received },
+    ]);
+  }
+
+  try {
+    return parse(raw);
+  } catch (error) {
+    const reason = rejectionReason(key, raw, (error as Error).message, expected);
+    throw new EnvValidationError([{ key, reason, expected, received }]);
+  }
+};
+
+/**
+ * Read a variable as a string, exactly as it is set.
+ *
+ * @example
+ * envString('ZIP'); // '01234', not 1234
+ */
+export function envString<O extends EnvAccessorOptions<string>>(
+  key: string,
+  options?: O,
+): EnvAccessorResult<string, O> {
+  return read(key, options ?? {}, 'a string', (raw) => raw) as EnvAccessorResult<
+    string,
+    O
+  >;
+}
+
+const STRICT_NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Read a variable as a finite decimal number.
+ *
+ * Hexadecimal literals such as `0x1F` and blank values are rejected. In
+ * strict mode a leading `+` and leading zeros are rejected as well.
+ *
+ * @example
+ * envNumber('RATIO', { default: 0.5 });
+ */
+export function envNumber<O extends EnvAccessorOptions<number>>(
+  key: string,
+  options?: O,
+): EnvAccessorResult<number, O> {
+  const opts: EnvAccessorOptions<number> = options ?? {};
+  return read(key, opts, 'a number', (raw) => {
+    if (opts.strict && !STRICT_NUMBER_PATTERN.test(raw)) {
+      throw new Error(`"${raw}" is not a number`);
+    }
+    return num().parse(raw);
+  }) as EnvAccessorResult<number, O>;
+}
+
+/**
+ * Read a variable as a safe integer.
+ *
+ * @example
+ * envInt('WORKERS', { default: 4 });
+ */
+export function envInt<O extends EnvAccessorOptions<number>>(
+  key: string,
+  options?: O,
+): EnvAccessorResult<number, O> {
+  const opts: EnvAccessorOptions<number> = options ?? {};
+  return read(key, opts, 'an integer', (raw) => {
+    if (opts.strict && !/^-?(0|[1-9]\d*)$/.test(raw)) {
+      throw new Error(`"${raw}" is not an integer`);
+    }
+    return int().parse(raw);
+  }) as EnvAccessorResult<number, O>;
+}
+
+/**
+ * Read a variable as a boolean.
+ *
+ * Accepts `true`/`false`, `1`/`0`, `yes`/`no` and `on`/`off` in any case;
+ * strict mode only accepts lowercase `true` and `false`.
+ *
+ * @example
+ * envBool('DEBUG', { default: false });
+ */
+export function envBool<O extends EnvAccessorOptions<boolean>>(
+  key: string,
+  options?: O,
+): EnvAccessorResult<boolean, O> {
+  const opts: EnvAccessorOptions<boolean> = options ?? {};
+  return read(key, opts, 'true or false', (raw) => {
+    if (opts.strict && raw !== 'true' && raw !== 'false') {
+      throw new Error(`"${raw}" is not a boolean`);
+    }
+    return bool().parse(raw);
+  }) as EnvAccessorResult<boolean, O>;
+}
+
+/**
+ * Options for {@link envJson}.
+ */
+export interface EnvJsonOptions<T> extends EnvAccessorOptions<T> {
+  /** Type guard the parsed value must satisfy */
+  check?: (value: unknown) => value is T;
+}
+
+/**
+ * Read a variable as JSON.
+ *
+ * @example
+ * envJson<{ origins: string[] }>('CORS', { default: { origins: [] } });
+ */
+export function envJson<
+  T = unknown,
+  O extends EnvJsonOptions<T> = EnvJsonOptions<T>,
+>(key: string, options?: O): EnvAccessorResult<T, O> {
+  const opts = options ?? ({} as O);
+  return read(key, opts, 'valid JSON', (raw) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`invalid JSON: ${(error as Error).message}`);
+    }
+    if (opts.check && !opts.check(value)) {
+      throw new Error('JSON does not match the expected structure');
+    }
+    return value as T;
+  }) as EnvAccessorResult<T, O>;
+}
+
+/**
+ * Options for {@link envArray}.
+ */
+export interface EnvArrayOptions
+  extends EnvAccessorOptions<string[]>,
+    Omit<SafeArrayOptions, 'type'> {}
+
+/**
+ * Options for {@link envMap}.
+ */
+export interface EnvMapOptions
+  extends EnvAccessorOptions<Record<string, string>>,
+    Omit<SafeMapOptions, 'type'> {}
+
+/**
+ * Read a delimited variable as an array of trimmed, non-empty strings.
+ *
+ * Items may be quoted to contain the delimiter; see {@link safeArray}.
+ *
+ * @example
+ * envArray('ALLOWED_HOSTS', { default: [] });
+ * envArray('TAGS', { delimiter: '|', unique: true });
+ */
+export function envArray<O extends EnvArrayOptions>(
+  key: string,
+  options?: O,
+): EnvAccessorResult<string[], O> {
+  const validator = list(str(), options);
+  return read(
+    key,
+    options ?? {},
+    validator.meta.expected,
+    validator.parse,
+  ) as EnvAccessorResult<string[], O>;
+}
+
+/**
+ * Read key-value pairs such as `a=1,b=2` as an object of strings.
+ *
+ * Values may be quoted to contain the delimiter; see {@link safeMap}.
+ *
+ * @example
+ * // EXTRA_HEADERS=X-Team=core,Accept="text/html, application/json"
+ * envMap('EXTRA_HEADERS', { default: {} });
+ * envMap('ROUTES', { delimiter: ';', separator: '->' });
+ */
+export function envMap<O extends EnvMapOptions>(
+  key: string,
+  options?: O,
+): EnvAccessorResult<Record<string, string>, O> {
+  const separator = options?.separator ?? '=';
+  return read(
+    key,
+    options ?? {},
+    `${list(str(), options).meta.expected} of key${separator}value pairs`,
+    (raw) => safeMap(raw, options) as Record<string, string>,
+  ) as EnvAccessorResult<Record<string, string>, O>;
+}
+
+/**
+ * Read a variable that must be one of a fixed set of values.
+ *
+ * @example
+ * envEnum('LOG_LEVEL', ['debug', 'info', 'warn'], { default: 'info' });
+ */
+export function envEnum<
+  const V extends string,
+  O extends EnvAccessorOptions<V> = EnvAccessorOptions<V>,
+>(key: string, choices: readonly V[], options?: O): EnvAccessorResult<V, O> {
+  const validator = oneOf(choices);
+  return read(
+    key,
+    options ?? {},
+    validator.meta.expected,
+    validator.parse,
+  ) as EnvAccessorResult<V, O>;
+}
+
+/**
+ * Options for {@link envUrl}.
+ */
+export interface EnvUrlOptions extends EnvAccessorOptions<URL>, UrlOptions {}
+
+/**
+ * Read a variable as an absolute URL, optionally restricted to some protocols.
+ *
+ * @example
+ * envUrl('API_URL', { required: true, protocols: ['https'] }).origin;
+ */
+export function envUrl<O extends EnvUrlOptions>(
+  key: string,
+  options?: O,
+): EnvAccessorResult<URL, O> {
+  const validator = url(options);
+  return read(
+    key,
+    options ?? {},
+    validator.meta.expected,
+    (raw) => new URL(validator.parse(raw)),
+  ) as EnvAccessorResult<URL, O>;
+}
@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview Executable entry point of the `env-x` command.
+ *
+ * @module bin
+ */
+import { runCli } from './cli.js';
+
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Environment-aware loading of layered `.env` files.
+ *
+ * Files are applied from lowest to highest precedence:
+ *
+ * 1. `.env`
+ * 2. `.env.<environment>`
+ * 3. `.env.local` (skipped in `test`)
+ * 4. `.env.<environment>.local` (skipped in `test`)
+ *
+ * `.local` files are skipped in the test environment so that test runs are
+ * reproducible, matching the behaviour of Next.js and Vite.
+ *
+ * @example
+ * const { environment, applied } = loadEnvCascade();
+ * console.log(`Loaded ${environment} config from ${applied.join(', ')}`);
+ *
+ * @module cascade
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+import {
+  decryptEnvValues,
+  DEFAULT_KEY_FILE,
+  type EnvKeyOptions,
+} from './crypto.js';
+import { ENV, getEnvironment } from './env.js';
+import { expandEnv } from './expand.js';
+import { mergeIntoProcessEnv, readEnvFile } from './parser.js';
+import type { EnvOrigin } from './provenance.js';
+
+/**
+ * Options for {@link loadEnvCascade}.
+ */
+export interface LoadEnvCascadeOptions extends EnvKeyOptions {
+  /** Directory holding the env files, defaults to the working directory */
+  dir?: string;
+  /** Environment to load, defaults to {@link getEnvironment} */
+  environment?: string;
+  /** File encoding, defaults to `utf8` */
+  encoding?: BufferEncoding;
+  /**
+   * Expand `${VAR}` references after all files are layered, defaults to false.
+   * Unless `override` is set, references to variables that are already set
+   * use their current value.
+   */
+  expand?: boolean;
+  /** Merge the result into `process.env`, defaults to true */
+  merge?: boolean;
+  /** Replace keys that already exist in `process.env`, defaults to false */
+  override?: boolean;
+}
+
+/**
+ * Status of a single file in the cascade.
+ */
+export interface EnvCascadeFile {
+  /** Path of the file */
+  path: string;
+  /** Whether the file exists */
+  found: boolean;
+  /** Keys whose final value comes from this file */
+  keys: string[];
+}
+
+/**
+ * Result of {@link loadEnvCascade}.
+ */
+export interface EnvCascadeResult {
+  /** The environment the cascade was resolved for, `undefined` when none is set */
+  environment: string | undefined;
+  /** Every candidate file, lowest precedence first */
+  files: EnvCascadeFile[];
+  /** Paths of files that contributed at least one value, lowest precedence first */
+  applied: string[];
+  /** The layered variables */
+  parsed: Record<string, string>;
+}
+
+/**
+ * List the env file names for an environment, lowest precedence first.
+ *
+ * @example
+ * getEnvCascadeFiles('production');
+ * // ['.env', '.env.production', '.env.local', '.env.production.local']
+ * getEnvCascadeFiles('test');
+ * // ['.env', '.env.test']
+ * getEnvCascadeFiles(undefined);
+ * // ['.env', '.env.local']
+ *
+ * @param environment - The environment name, `undefined` when none is set.
+ * @returns The file names in the order they are applied.
+ */
+export function getEnvCascadeFiles(environment: string | undefined): string[] {
+  if (environment === undefined) return ['.env', '.env.local'];
+
+  const files = ['.env', `.env.${environment}`];
+
+  if (environment !== ENV.Test) {
+    files.push('.env.local', `.env.${environment}.local`);
+  }
+
+  return files;
+}
+
+/**
+ * Load the `.env` cascade for the current environment.
+ *
+ * Missing files are skipped. Values from higher precedence files replace
+ * values from lower ones, and values already present in `process.env` are
+ * kept unless `override` is set.
+ *
+ * @param options - Loading options.
+ * @returns The resolved environment, the status of each file and the layered variables.
+ * @throws {EnvParseError} If one of the files contains a syntax error.
+ * @throws {EnvExpansionError} If `expand` is set and a reference cannot be resolved.
+ * @throws {EnvDecryptionError} If an encrypted value cannot be decrypted.
+ */
+export function loadEnvCascade(
+  options: LoadEnvCascadeOptions = {},
+): EnvCascadeResult {
+  const {
+    dir = '.',
+    environment = getEnvironment(),
+    encoding = 'utf8',
+    expand = false,
+    merge = true,
+    override = false,
+  } = options;
+
+  let parsed: Record<string, string> = {};
+  const origin = new Map<string, EnvCascadeFile>();
+  const origins: Record<string, EnvOrigin[]> = {};
+  const literalKeys = new Set<string>();
+
+  const files = getEnvCascadeFiles(environment).map((name): EnvCascadeFile => {
+    const path = join(dir, name);
+    const file: EnvCascadeFile = { path, found: existsSync(path), keys: [] };
+    if (!file.found) return file;
+
+    for (const entry of readEnvFile(path, encoding)) {
+      parsed[entry.key] = entry.value;
+      origin.set(entry.key, file);
+      (origins[entry.key] ??= []).push({
+        type: 'file',
+        file: path,
+        line: entry.line,
+      });
+      if (entry.quote === 'single') {
+        literalKeys.add(entry.key);
+      } else {
+        literalKeys.delete(entry.key);
+      }
+    }
+    return file;
+  });
+
+  for (const [key, file] of origin) {
+    file.keys.push(key);
+  }
+
+  // Encrypted values are decrypted first and never expanded
+  const { values, decrypted } = decryptEnvValues(parsed, {
+    key: options.key,
+    keyFile: options.keyFile ?? join(dir, DEFAULT_KEY_FILE),
+  });
+  parsed = values;
+  decrypted.forEach((key) => literalKeys.add(key));
+
+  if (expand) {
+    // Without override, references see the values that are kept
+    parsed = expandEnv(parsed, { literalKeys, sourceFirst: !override });
+  }
+
+  if (merge) {
+    for (const key of Object.keys(parsed)) {
+      const last = origins[key]?.at(-1);
+      if (!last) continue;
+      if (decrypted.includes(key)) last.decrypted = true;
+      if (parsed[key] !== values[key]) last.expanded = true;
+    }
+    mergeIntoProcessEnv(parsed, override, origins);
+  }
+
+  return {
+    environment,
+    files,
+    applied: files.filter((file) => file.keys.length > 0).map((file) => file.path),
+    parsed,
+  };
+}
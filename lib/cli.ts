@@ -0,0 +1,667 @@
+/**
+ * @fileoverview The `env-x` command-line tool.
+ *
+ * Commands:
+ * - `env-x check` validates the environment against a schema module or a
+ *   required-keys file and exits non-zero on failure
+ * - `env-x print` shows the effective configuration, redacted
+ * - `env-x get KEY` prints a single, typed value
+ * - `env-x exec -- cmd` runs a command with the env files loaded
+ * - `env-x example check|generate` compares `.env` with `.env.example` or
+ *   generates the example file
+ * - `env-x encrypt|decrypt|rotate-key` manage encrypted env files
+ * - `env-x types` generates a `.d.ts` file or a JSON Schema document
+ *
+ * Env files are resolved with {@link loadEnvCascade} unless `--env-file` is
+ * given. Values already set in the shell win unless `--override` is passed.
+ *
+ * @example
+ * env-x check --schema ./env.schema.js
+ * env-x print --json
+ * env-x get PORT --type int
+ * env-x exec --env-file .env.test -- node server.js
+ * env-x example generate --from .env --out .env.example --update
+ * env-x encrypt --env-file .env.production --keys API_TOKEN,DB_PASSWORD
+ * env-x types --schema ./env.schema.js --out env.d.ts
+ *
+ * @module cli
+ */
+
+import { spawn } from 'node:child_process';
+import {
+  existsSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { constants } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { loadEnvCascade } from './cascade.js';
+import {
+  decryptEnv,
+  DEFAULT_KEY_FILE,
+  encryptEnv,
+  ENV_KEY_VARIABLE,
+  generateEnvKey,
+  rotateEnvKey,
+} from './crypto.js';
+import { EnvValidationError } from './errors.js';
+import {
+  compareEnvExample,
+  generateEnvExample,
+  updateEnvExample,
+} from './example.js';
+import { loadEnv } from './parser.js';
+import { redactValue } from './redact.js';
+import { defineEnv, type EnvSchema } from './schema.js';
+import { generateEnvJsonSchema, generateEnvTypes } from './typegen.js';
+import { safeStringify } from './utils.js';
+import { bool, int, json, num, str, url, type EnvVar } from './validators.js';
+
+/**
+ * Input and output used by {@link runCli}, replaceable in tests.
+ */
+export interface CliIO {
+  /** Writes a line to standard output */
+  stdout: (line: string) => void;
+  /** Writes a line to standard error */
+  stderr: (line: string) => void;
+  /** The shell environment, defaults to `process.env` */
+  env: Record<string, string | undefined>;
+  /** The working directory, defaults to `process.cwd()` */
+  cwd: string;
+}
+
+/**
+ * Parsed command-line arguments.
+ */
+export interface CliArgs {
+  /** The command name */
+  command: string;
+  /** Positional arguments after the command */
+  positionals: string[];
+  /** Flags with a value; repeatable flags keep every value */
+  options: Record<string, string[]>;
+  /** Boolean flags */
+  flags: Set<string>;
+  /** Arguments after `--` */
+  rest: string[];
+}
+
+type CliCommand = (args: CliArgs, io: CliIO) => Promise<number>;
+
+const VALUE_OPTIONS = new Set([
+  'schema',
+  'required',
+  'env-file',
+  'environment',
+  'dir',
+  'type',
+  'example',
+  'from',
+  'out',
+  'key-file',
+  'keys',
+  'format',
+]);
+
+const USAGE = `Usage: env-x <command> [options]
+
+Commands:
+  check               Validate the environment (--schema <file> or --required <file>)
+  print               Show the effective configuration, redacted
+  get <KEY>           Print a single value (--type string|number|int|boolean|json|url)
+  exec -- <cmd...>    Run a command with the env files loaded
+  example check       Compare --env-file (default: .env) with --example (default: .env.example)
+  example generate    Generate .env.example --from an env file (default: .env) or --schema;
+                      writes to --out (--update keeps existing entries) or stdout
+  encrypt             Encrypt values of --env-file (default: .env) in place; sensitive
+                      keys unless --keys A,B; creates the key file when there is no key
+  decrypt             Decrypt values of --env-file (default: .env) in place
+  rotate-key          Re-encrypt --env-file with a new key and replace the key file
+  types               Generate declarations for process.env --from an example file
+                      (default: .env.example) or --schema; --format d.ts|json-schema,
+                      writes to --out or stdout
+
+Options:
+  --env-file <file>   Load this file instead of the .env cascade (repeatable)
+  --dir <dir>         Directory of the .env cascade (default: working directory)
+  --environment <env> Environment of the .env cascade (default: APP_ENV or NODE_ENV)
+  --override          Let env files override variables set in the shell
+  --expand            Expand \${VAR} references in env files
+  --key-file <file>   Encryption key file (default: .env.key; ENV_X_KEY wins)
+  --all               Include every shell variable in print
+  --json              Print machine-readable JSON`;
+
+/**
+ * Parse command-line arguments.
+ *
+ * @param argv - Arguments without the node binary and script path.
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: '',
+    positionals: [],
+    options: {},
+    flags: new Set(),
+    rest: [],
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      args.rest = argv.slice(i + 1);
+      break;
+    }
+
+    if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+      if (VALUE_OPTIONS.has(name)) {
+        if (inline === undefined) i += 1;
+        const value = inline ?? argv[i];
+        if (value === undefined) throw new Error(`Missing value for --${name}`);
+        (args.options[name] ??= []).push(value);
+      } else {
+        args.flags.add(name);
+      }
+    } else if (!args.command) {
+      args.command = arg;
+    } else {
+      args.positionals.push(arg);
+    }
+  }
+
+  return args;
+}
+
+const option = (args: CliArgs, name: string): string | undefined =>
+  args.options[name]?.[args.options[name].length - 1];
+
+/**
+ * Load the env files selected by the arguments.
+ *
+ * @returns The variables from the files and the effective merged environment.
+ */
+const loadFiles = (
+  args: CliArgs,
+  io: CliIO,
+): {
+  files: Record<string, string>;
+  effective: Record<string, string | undefined>;
+} => {
+  const expand = args.flags.has('expand');
+  const keyFile = option(args, 'key-file');
+  const keyOptions = {
+    key: io.env[ENV_KEY_VARIABLE],
+    keyFile: keyFile && resolve(io.cwd, keyFile),
+  };
+  const envFiles = args.options['env-file'];
+  let files: Record<string, string> = {};
+
+  if (envFiles) {
+    for (const file of envFiles) {
+      Object.assign(
+        files,
+        loadEnv(resolve(io.cwd, file), { merge: false, expand, ...keyOptions }),
+      );
+    }
+  } else {
+    files = loadEnvCascade({
+      dir: resolve(io.cwd, option(args, 'dir') ?? '.'),
+      environment: option(args, 'environment'),
+      merge: false,
+      expand,
+      ...keyOptions,
+    }).parsed;
+  }
+
+  const effective = args.flags.has('override')
+    ? { ...io.env, ...files }
+    : { ...files, ...io.env };
+
+  return { files, effective };
+};
+
+/**
+ * Read a required-keys file: one key per line, `#` comments allowed. Lines of
+ * the form `KEY=value` are accepted, so `.env.example` files can be used.
+ */
+const readRequiredKeys = (path: string): string[] =>
+  readFileSync(path, 'utf8')
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .replace(/^\s*export\s+/, '')
+        .split(/[=#]/)[0]
+        .trim(),
+    )
+    .filter(Boolean);
+
+/**
+ * Import a schema module exporting `schema` or a default export.
+ *
+ * The path goes through a file URL, as `import()` reads `C:\...` as a URL scheme.
+ */
+const importSchema = async (path: string): Promise<EnvSchema> => {
+  const mod = (await import(pathToFileURL(path).href)) as {
+    schema?: EnvSchema;
+    default?: unknown;
+  };
+  const schema =
+    mod.schema ?? (mod.default as { schema?: EnvSchema })?.schema ?? mod.default;
+  if (!schema || typeof schema !== 'object') {
+    throw new Error(`${path} does not export a schema`);
+  }
+  return schema as EnvSchema;
+};
+
+const check: CliCommand = async (args, io) => {
+  const schemaFile = option(args, 'schema');
+  const requiredFile = option(args, 'required');
+  if (!schemaFile && !requiredFile) {
+    io.stderr('check needs --schema <file> or --required <file>');
+    return 2;
+  }
+
+  const { effective } = loadFiles(args, io);
+  const schema: EnvSchema = schemaFile
+    ? await importSchema(resolve(io.cwd, schemaFile))
+    : Object.fromEntries(
+        readRequiredKeys(resolve(io.cwd, requiredFile as string)).map((key) => [
+          key,
+          str(),
+        ]),
+      );
+
+  try {
+    defineEnv(schema, {
+      source: effective,
+      environment: option(args, 'environment'),
+    });
+  } catch (error) {
+    if (!(error instanceof EnvValidationError)) throw error;
+    if (args.flags.has('json')) {
+      io.stdout(JSON.stringify({ valid: false, ...error.toJSON() }, null, 2));
+    } else {
+      io.stderr(error.format());
+    }
+    return 1;
+  }
+
+  const count = Object.keys(schema).length;
+  if (args.flags.has('json')) {
+    io.stdout(JSON.stringify({ valid: true, checked: count }, null, 2));
+  } else {
+    io.stdout(`✔ ${count} variable(s) valid`);
+  }
+  return 0;
+};
+
+const print: CliCommand = async (args, io) => {
+  const { files, effective } = loadFiles(args, io);
+  const keys = args.flags.has('all') ? Object.keys(effective) : Object.keys(files);
+
+  const config: Record<string, string> = {};
+  for (const key of keys.sort()) {
+    const value = effective[key];
+    if (value !== undefined) config[key] = value;
+  }
+
+  if (args.flags.has('json')) {
+    io.stdout(safeStringify(config));
+  } else {
+    for (const [key, value] of Object.entries(config)) {
+      io.stdout(`${key}=${redactValue(key, value)}`);
+    }
+  }
+  return 0;
+};
+
+const TYPES: Record<string, () => EnvVar<unknown>> = {
+  string: str,
+  number: num,
+  int: () => int(),
+  boolean: bool,
+  json: () => json(),
+  url: () => url(),
+};
+
+const get: CliCommand = async (args, io) => {
+  const [key] = args.positionals;
+  const type = option(args, 'type') ?? 'string';
+  const validator = Object.hasOwn(TYPES, type) ? TYPES[type]() : undefined;
+
+  if (!key) {
+    io.stderr('get needs a KEY');
+    return 2;
+  }
+  if (!validator) {
+    io.stderr(
+      `Unknown type "${type}", expected one of: ${Object.keys(TYPES).join(', ')}`,
+    );
+    return 2;
+  }
+
+  const raw = loadFiles(args, io).effective[key];
+  if (raw === undefined || raw === '') {
+    io.stderr(`${key} is not set`);
+    return 1;
+  }
+
+  const result = validator.validate(raw);
+  if (!result.ok) {
+    io.stderr(`${key}: ${result.error} (expected ${validator.meta.expected})`);
+    return 1;
+  }
+
+  const value = result.value;
+  io.stdout(
+    args.flags.has('json') || typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value),
+  );
+  return 0;
+};
+
+const FORWARDED_SIGNALS: readonly NodeJS.Signals[] = [
+  'SIGINT',
+  'SIGTERM',
+  'SIGHUP',
+];
+
+const exec: CliCommand = async (args, io) => {
+  const [cmd, ...cmdArgs] = args.rest;
+  if (!cmd) {
+    io.stderr('exec needs a command after --');
+    return 2;
+  }
+
+  const { effective } = loadFiles(args, io);
+
+  return new Promise<number>((done) => {
+    const child = spawn(cmd, cmdArgs, {
+      cwd: io.cwd,
+      env: effective,
+      stdio: 'inherit',
+    });
+
+    // Pass Ctrl-C and container stops on so the child can shut down cleanly
+    const forward = (signal: NodeJS.Signals) => child.kill(signal);
+    const finish = (code: number) => {
+      for (const signal of FORWARDED_SIGNALS) process.off(signal, forward);
+      done(code);
+    };
+    for (const signal of FORWARDED_SIGNALS) process.on(signal, forward);
+
+    child.on('error', (error) => {
+      io.stderr(`Failed to start ${cmd}: ${error.message}`);
+      finish(127);
+    });
+    // A child ended by a signal exits like a shell would, with 128 + the signal number
+    child.on('exit', (code, signal) =>
+      finish(code ?? (signal ? 128 + constants.signals[signal] : 0)),
+    );
+  });
+};
+
+const exampleCheck: CliCommand = async (args, io) => {
+  const report = compareEnvExample({
+    envFile: resolve(io.cwd, option(args, 'env-file') ?? '.env'),
+    exampleFile: resolve(io.cwd, option(args, 'example') ?? '.env.example'),
+  });
+
+  if (args.flags.has('json')) {
+    io.stdout(JSON.stringify(report, null, 2));
+  } else {
+    for (const key of report.missing) io.stderr(`✖ ${key}: missing`);
+    for (const key of report.extra) io.stderr(`! ${key}: not in the example file`);
+    for (const key of report.empty) io.stderr(`! ${key}: empty`);
+    if (report.isValid) io.stdout('✔ env file matches the example file');
+  }
+  return report.isValid ? 0 : 1;
+};
+
+const exampleGenerate: CliCommand = async (args, io) => {
+  const schemaFile = option(args, 'schema');
+  const source = schemaFile
+    ? await importSchema(resolve(io.cwd, schemaFile))
+    : readFileSync(resolve(io.cwd, option(args, 'from') ?? '.env'), 'utf8');
+
+  const out = option(args, 'out');
+  const outPath = out && resolve(io.cwd, out);
+  const content =
+    outPath && args.flags.has('update') && existsSync(outPath)
+      ? updateEnvExample(readFileSync(outPath, 'utf8'), source)
+      : generateEnvExample(source);
+
+  if (outPath) {
+    writeFileSync(outPath, content);
+    io.stdout(`✔ wrote ${out}`);
+  } else {
+    io.stdout(content.trimEnd());
+  }
+  return 0;
+};
+
+const EXAMPLE_COMMANDS: Record<string, CliCommand> = {
+  check: exampleCheck,
+  generate: exampleGenerate,
+};
+
+const example: CliCommand = async (args, io) => {
+  const [name = ''] = args.positionals;
+  if (!Object.hasOwn(EXAMPLE_COMMANDS, name)) {
+    io.stderr('example needs a subcommand: check or generate');
+    return 2;
+  }
+  return EXAMPLE_COMMANDS[name](args, io);
+};
+
+/**
+ * The env files an encryption command works on, and the key file next to them.
+ */
+const cryptoTargets = (
+  args: CliArgs,
+  io: CliIO,
+): { files: string[]; keyFile: string } => {
+  const files = (args.options['env-file'] ?? ['.env']).map((file) =>
+    resolve(io.cwd, file),
+  );
+  const keyFile = option(args, 'key-file');
+  return {
+    files,
+    keyFile: keyFile
+      ? resolve(io.cwd, keyFile)
+      : join(dirname(files[0]), DEFAULT_KEY_FILE),
+  };
+};
+
+/**
+ * Write a file through a temporary file and a rename, so it is never left
+ * half written.
+ */
+const writeFileAtomic = (file: string, text: string, mode?: number): void => {
+  const temp = `${file}.${process.pid}.tmp`;
+  try {
+    writeFileSync(temp, text, { mode });
+    renameSync(temp, file);
+  } catch (error) {
+    rmSync(temp, { force: true });
+    throw error;
+  }
+};
+
+const readKey = (io: CliIO, keyFile: string): string | undefined =>
+  io.env[ENV_KEY_VARIABLE] ||
+  (existsSync(keyFile) ? readFileSync(keyFile, 'utf8').trim() : undefined);
+
+const encrypt: CliCommand = async (args, io) => {
+  const { files, keyFile } = cryptoTargets(args, io);
+  let key = readKey(io, keyFile);
+  if (!key) {
+    key = generateEnvKey();
+    writeFileSync(keyFile, `${key}\n`, { mode: 0o600 });
+    io.stdout(`✔ created ${keyFile}, keep it out of version control`);
+  }
+
+  const keys = option(args, 'keys')
+    ?.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  for (const file of files) {
+    writeFileSync(file, encryptEnv(readFileSync(file, 'utf8'), key, { keys }));
+    io.stdout(`✔ encrypted ${file}`);
+  }
+  return 0;
+};
+
+const decrypt: CliCommand = async (args, io) => {
+  const { files, keyFile } = cryptoTargets(args, io);
+  const key = readKey(io, keyFile);
+  if (!key) {
+    io.stderr(`No key: set ${ENV_KEY_VARIABLE} or create ${keyFile}`);
+    return 1;
+  }
+
+  for (const file of files) {
+    writeFileSync(file, decryptEnv(readFileSync(file, 'utf8'), key));
+    io.stdout(`✔ decrypted ${file}`);
+  }
+  return 0;
+};
+
+const rotateKey: CliCommand = async (args, io) => {
+  const { files, keyFile } = cryptoTargets(args, io);
+  const oldKey = readKey(io, keyFile);
+  if (!oldKey) {
+    io.stderr(`No key: set ${ENV_KEY_VARIABLE} or create ${keyFile}`);
+    return 1;
+  }
+
+  // Re-encrypt everything in memory first, so a bad file changes nothing
+  const newKey = generateEnvKey();
+  const rotated = files.map((file) => ({
+    file,
+    text: rotateEnvKey(readFileSync(file, 'utf8'), oldKey, newKey),
+  }));
+
+  // Save both keys before touching a file, so no file is ever encrypted with
+  // a key that is not on disk; the old key is kept until every file is written
+  const backup = `${keyFile}.old`;
+  writeFileAtomic(backup, `${oldKey}\n`, 0o600);
+  writeFileAtomic(keyFile, `${newKey}\n`, 0o600);
+
+  const written: string[] = [];
+  try {
+    for (const { file, text } of rotated) {
+      writeFileAtomic(file, text);
+      written.push(file);
+    }
+  } catch (error) {
+    const pending = files.filter((file) => !written.includes(file));
+    io.stderr(
+      `Rotation stopped: ${pending.join(', ')} still use the previous key, kept in ${backup}`,
+    );
+    throw error;
+  }
+  rmSync(backup, { force: true });
+
+  io.stdout(`✔ re-encrypted ${files.length} file(s) and replaced ${keyFile}`);
+  if (io.env[ENV_KEY_VARIABLE]) {
+    io.stdout(`! update ${ENV_KEY_VARIABLE} with the new key from ${keyFile}`);
+  }
+  return 0;
+};
+
+const types: CliCommand = async (args, io) => {
+  const format = option(args, 'format') ?? 'd.ts';
+  if (format !== 'd.ts' && format !== 'json-schema') {
+    io.stderr(`Unknown format "${format}": use d.ts or json-schema`);
+    return 2;
+  }
+
+  const schemaFile = option(args, 'schema');
+  const source = schemaFile
+    ? await importSchema(resolve(io.cwd, schemaFile))
+    : readFileSync(resolve(io.cwd, option(args, 'from') ?? '.env.example'), 'utf8');
+
+  const environment = option(args, 'environment');
+  const content =
+    format === 'd.ts'
+      ? generateEnvTypes(source, { environment })
+      : `${JSON.stringify(generateEnvJsonSchema(source, { environment }), null, 2)}\n`;
+
+  const out = option(args, 'out');
+  if (out) {
+    writeFileSync(resolve(io.cwd, out), content);
+    io.stdout(`✔ wrote ${out}`);
+  } else {
+    io.stdout(content.trimEnd());
+  }
+  return 0;
+};
+
+const COMMANDS: Record<string, CliCommand> = {
+  check,
+  print,
+  get,
+  exec,
+  example,
+  encrypt,
+  decrypt,
+  'rotate-key': rotateKey,
+  types,
+};
+
+/**
+ * Run the `env-x` command line.
+ *
+ * @param argv - Arguments without the node binary and script path.
+ * @param io - Input and output overrides, mainly for tests.
+ * @returns The process exit code.
+ */
+export async function runCli(
+  argv: string[],
+  io: Partial<CliIO> = {},
+): Promise<number> {
+  const cliIO: CliIO = {
+    stdout: (line) => console.log(line),
+    stderr: (line) => console.error(line),
+    env: process.env,
+    cwd: process.cwd(),
+    ...io,
+  };
+
+  let args: CliArgs;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    cliIO.stderr((error as Error).message);
+    return 2;
+  }
+
+  if (args.command === 'help' || args.flags.has('help')) {
+    cliIO.stdout(USAGE);
+    return 0;
+  }
+  if (!args.command) {
+    cliIO.stderr(USAGE);
+    return 2;
+  }
+
+  if (!Object.hasOwn(COMMANDS, args.command)) {
+    cliIO.stderr(`Unknown command "${args.command}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    return await COMMANDS[args.command](args, cliIO);
+  } catch (error) {
+    cliIO.stderr(`env-x ${args.command}: ${(error as Error).message}`);
+    return 1;
+  }
+}
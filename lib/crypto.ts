@@ -0,0 +1,348 @@
+/**
+ * @fileoverview Encrypted env files that are safe to commit.
+ *
+ * Values are encrypted one by one with AES-256-GCM, so keys stay readable and
+ * diffs show which variable changed. An encrypted value is marked by the
+ * `encrypted:` prefix:
+ *
+ * ```
+ * PORT=3000
+ * API_TOKEN=encrypted:g8cX0Yq...
+ * ```
+ *
+ * The key is taken from, in order: the `key` option, the `ENV_X_KEY`
+ * variable, or a local key file (`.env.key` by default, never committed).
+ * `loadEnv()` and `loadEnvCascade()` decrypt transparently and throw an
+ * {@link EnvDecryptionError} when a value cannot be decrypted.
+ *
+ * @example
+ * const key = generateEnvKey();
+ * writeFileSync('.env.key', key, { mode: 0o600 });
+ *
+ * const text = encryptEnv(readFileSync('.env', 'utf8'), key);
+ * // PORT=3000
+ * // API_TOKEN=encrypted:...
+ *
+ * @module crypto
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { parseEnvEntries, type EnvQuote } from './parser.js';
+import { isSensitiveKey } from './redact.js';
+import { getEnvSource } from './sources.js';
+
+/**
+ * Prefix marking an encrypted value.
+ */
+export const ENCRYPTED_PREFIX = 'encrypted:';
+
+/**
+ * Variable holding the encryption key.
+ */
+export const ENV_KEY_VARIABLE = 'ENV_X_KEY';
+
+/**
+ * Default name of the local key file.
+ */
+export const DEFAULT_KEY_FILE = '.env.key';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Error thrown when encrypted values cannot be decrypted.
+ */
+export class EnvDecryptionError extends Error {
+  /** The variables that could not be decrypted */
+  readonly keys: string[];
+
+  constructor(message: string, keys: string[] = []) {
+    super(message);
+    this.name = 'EnvDecryptionError';
+    this.keys = keys;
+  }
+}
+
+/**
+ * Where the encryption key comes from.
+ */
+export interface EnvKeyOptions {
+  /** The key itself, as base64 or hex */
+  key?: string;
+  /** Path to the key file, defaults to `.env.key` in the working directory */
+  keyFile?: string;
+}
+
+/**
+ * Options for {@link encryptEnv}.
+ */
+export interface EncryptEnvOptions {
+  /** Keys to encrypt, defaults to the keys that are sensitive by the redaction policy */
+  keys?: string[];
+}
+
+/**
+ * Generate a new random key, base64 encoded.
+ */
+export function generateEnvKey(): string {
+  return randomBytes(32).toString('base64');
+}
+
+const toKeyBuffer = (key: string): Buffer => {
+  const trimmed = key.trim();
+  const buffer = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (buffer.length !== 32) {
+    throw new EnvDecryptionError(
+      'Invalid encryption key: expected 32 bytes as base64 or hex',
+    );
+  }
+  return buffer;
+};
+
+/**
+ * Find the encryption key: the `key` option, then `ENV_X_KEY`, then the key file.
+ *
+ * @param options - Key sources.
+ * @returns The key, or `undefined` when none is available.
+ */
+export function resolveEnvKey(options: EnvKeyOptions = {}): string | undefined {
+  const fromEnv = getEnvSource().get(ENV_KEY_VARIABLE);
+  if (options.key || fromEnv) return options.key || fromEnv;
+
+  const keyFile = resolve(options.keyFile ?? DEFAULT_KEY_FILE);
+  return existsSync(keyFile) ? readFileSync(keyFile, 'utf8').trim() : undefined;
+}
+
+/**
+ * Check whether a value is encrypted.
+ */
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a single value.
+ *
+ * @param value - The plain value.
+ * @param key - The key, as base64 or hex.
+ * @returns The value with the `encrypted:` prefix.
+ */
+export function encryptValue(value: string, key: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, toKeyBuffer(key), iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  const payload = Buffer.concat([iv, cipher.getAuthTag(), data]);
+  return `${ENCRYPTED_PREFIX}${payload.toString('base64')}`;
+}
+
+/**
+ * Decrypt a single value; values without the `encrypted:` prefix are returned as is.
+ *
+ * @param value - The encrypted value.
+ * @param key - The key, as base64 or hex.
+ * @throws {EnvDecryptionError} When the key is wrong or the value was tampered with.
+ */
+export function decryptValue(value: string, key: string): string {
+  if (!isEncryptedValue(value)) return value;
+
+  const payload = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+  if (payload.length < IV_LENGTH + TAG_LENGTH) {
+    throw new EnvDecryptionError('Encrypted value is truncated');
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      toKeyBuffer(key),
+      payload.subarray(0, IV_LENGTH),
+    );
+    decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([
+      decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch (error) {
+    if (error instanceof EnvDecryptionError) throw error;
+    throw new EnvDecryptionError('Wrong key or corrupted value');
+  }
+}
+
+/**
+ * Decrypt every encrypted value of a map of variables.
+ *
+ * No key is needed when nothing is encrypted.
+ *
+ * @param vars - The variables, as loaded from a file.
+ * @param options - Key sources.
+ * @returns A new map with decrypted values, and the keys that were decrypted.
+ * @throws {EnvDecryptionError} When no key is available or any value cannot be decrypted.
+ */
+export function decryptEnvValues(
+  vars: Record<string, string>,
+  options: EnvKeyOptions = {},
+): { values: Record<string, string>; decrypted: string[] } {
+  const encrypted = Object.keys(vars).filter((name) =>
+    isEncryptedValue(vars[name]),
+  );
+  if (encrypted.length === 0) return { values: vars, decrypted: [] };
+
+  const key = resolveEnvKey(options);
+  if (!key) {
+    throw new EnvDecryptionError(
+      `Cannot decrypt ${encrypted.join(', ')}: set ${ENV_KEY_VARIABLE} or create ${options.keyFile ?? DEFAULT_KEY_FILE}`,
+      encrypted,
+    );
+  }
+
+  const values = { ...vars };
+  const failed: string[] = [];
+  for (const name of encrypted) {
+    try {
+      values[name] = decryptValue(vars[name], key);
+    } catch {
+      failed.push(name);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new EnvDecryptionError(
+      `Cannot decrypt ${failed.join(', ')}: wrong key or corrupted value`,
+      failed,
+    );
+  }
+  return { values, decrypted: encrypted };
+}
+
+/**
+ * Write a value so the parser reads it back unchanged, keeping the quote
+ * style of the original line when the value fits in it.
+ */
+const quoteValue = (value: string, quote: EnvQuote): string => {
+  if (
+    quote === 'none' &&
+    (value === '' ||
+      (/^[^\s'"`#][^\n\r]*$/.test(value) &&
+        value.trim() === value &&
+        !/\s#/.test(value)))
+  ) {
+    return value;
+  }
+  if (quote === 'single' && !value.includes("'")) return `'${value}'`;
+  if (quote === 'backtick' && !value.includes('`')) return `\`${value}\``;
+
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+};
+
+/**
+ * Replace the values of some entries of env file text, keeping everything
+ * else: `export`, spacing, quote style and inline comments.
+ */
+const transformEnv = (
+  text: string,
+  transform: (key: string, value: string) => string | undefined,
+): string => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const entries = parseEnvEntries(text);
+
+  // Work backwards so earlier line numbers stay valid
+  for (const entry of [...entries].reverse()) {
+    const value = transform(entry.key, entry.value);
+    if (value === undefined || value === entry.value) continue;
+
+    const prefix = /^[^=]*=[ \t]*/.exec(lines[entry.line - 1])?.[0] ?? '';
+    // An inline comment needs whitespace before it
+    const comment = entry.comment?.startsWith('#')
+      ? ` ${entry.comment}`
+      : (entry.comment ?? '');
+    lines.splice(
+      entry.line - 1,
+      entry.endLine - entry.line + 1,
+      `${prefix}${quoteValue(value, entry.quote)}${comment}`,
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Encrypt the values of env file text.
+ *
+ * Comments, blank lines and other keys are kept, as are the quote style and
+ * inline comment of each encrypted line; values that are already encrypted
+ * are left alone.
+ *
+ * @example
+ * encryptEnv('PORT=3000\nAPI_TOKEN=abc', key);
+ * // 'PORT=3000\nAPI_TOKEN=encrypted:...'
+ *
+ * @param text - The env file content.
+ * @param key - The key, as base64 or hex.
+ * @param options - Which keys to encrypt.
+ * @returns The env file content with encrypted values.
+ */
+export function encryptEnv(
+  text: string,
+  key: string,
+  options: EncryptEnvOptions = {},
+): string {
+  const selected = (name: string) =>
+    options.keys ? options.keys.includes(name) : isSensitiveKey(name);
+
+  return transformEnv(text, (name, value) =>
+    selected(name) && !isEncryptedValue(value)
+      ? encryptValue(value, key)
+      : undefined,
+  );
+}
+
+/**
+ * Decrypt every encrypted value of env file text.
+ *
+ * Each value is written back in the quote style of its line, so single-quoted
+ * values stay literal when the file is loaded with `expand`.
+ *
+ * @param text - The env file content.
+ * @param key - The key, as base64 or hex.
+ * @returns The env file content with plain values.
+ * @throws {EnvDecryptionError} When a value cannot be decrypted.
+ */
+export function decryptEnv(text: string, key: string): string {
+  return transformEnv(text, (name, value) => {
+    try {
+      return decryptValue(value, key);
+    } catch (error) {
+      throw new EnvDecryptionError(
+        `Cannot decrypt ${name}: ${(error as Error).message}`,
+        [name],
+      );
+    }
+  });
+}
+
+/**
+ * Re-encrypt every encrypted value of env file text with a new key.
+ *
+ * @param text - The env file content.
+ * @param oldKey - The current key.
+ * @param newKey - The replacement key.
+ * @returns The env file content encrypted with the new key.
+ * @throws {EnvDecryptionError} When a value cannot be decrypted with the old key.
+ */
+export function rotateEnvKey(text: string, oldKey: string, newKey: string): string {
+  const encrypted = parseEnvEntries(text)
+    .filter((entry) => isEncryptedValue(entry.value))
+    .map((entry) => entry.key);
+
+  return encryptEnv(decryptEnv(text, oldKey), newKey, { keys: encrypted });
+}
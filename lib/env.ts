@@ -3,6 +3,8 @@
  *
  * This module provides utilities for:
  * - Checking current environment type (development, production, test, staging, UAT)
+ * - Resolving the environment from configurable keys, aliases and browser hostnames,
+ *   and registering custom environments
  * - Detecting server-side vs client-side execution context
  * - Validating environment variables
  * - Determining SSR (Server-Side Rendering) vs CSR (Client-Side Rendering) contexts
@@ -12,7 +14,7 @@
  *
  * @example
  * // Check current environment
- * if (isDev) {
+ * if (isDevEnv()) {
  *   console.log('Running in development mode');
  * }
  *
@@ -29,12 +31,44 @@
  * @module env
  */
 
-import { safeArray } from './utils';
+import {
+  EnvErrorReportOptions,
+  EnvValidationError,
+  reportValidationError,
+} from './errors.js';
+import { expandValue } from './expand.js';
+import {
+  assertPublicAccess,
+  getPublicEnv,
+  isPublicGuardActive,
+  isPublicKey,
+} from './public.js';
+import { envSourceToObject, getEnvSource, type EnvSource } from './sources.js';
+import { recordEnvAccess } from './tracking.js';
+
+/**
+ * Registry of known environments. Extend it with declaration merging to add
+ * custom environments registered with {@link registerEnvironment}:
+ *
+ * @example
+ * declare module 'env-x-utils' {
+ *   interface EnvironmentRegistry {
+ *     preview: true;
+ *   }
+ * }
+ */
+export interface EnvironmentRegistry {
+  development: true;
+  production: true;
+  test: true;
+  staging: true;
+  uat: true;
+}
 
 /**
  * Supported environment types
  */
-export type Environment = 'development' | 'production' | 'test' | 'staging' | 'uat';
+export type Environment = Extract<keyof EnvironmentRegistry, string>;
 
 /**
  * Supported environment.
@@ -54,6 +88,79 @@ export const ENV = {
   UAT: 'uat',
 } as const;
 
+/**
+ * Options for {@link env}.
+ */
+export interface EnvOptions {
+  /** Expand `${VAR}` and `$VAR` references against the env source before parsing */
+  expand?: boolean;
+}
+
+/**
+ * Maps a browser hostname to an environment.
+ */
+export interface HostnameRule {
+  /** Exact hostname, `*.example.com` wildcard, or regular expression */
+  hostname: string | RegExp;
+  /** The environment for matching hostnames */
+  environment: Environment;
+}
+
+/**
+ * Options for {@link configureEnvironment}.
+ */
+export interface EnvironmentConfig {
+  /** Variables checked in order, defaults to `APP_ENV` then `NODE_ENV` */
+  keys?: string[];
+  /** Alternative names, e.g. `{ prod: 'production' }`; merged with the current aliases */
+  aliases?: Record<string, Environment>;
+  /** Browser hostname rules, replacing the current ones; defaults to `localhost` as development */
+  hostnames?: HostnameRule[];
+  /** Environment used when nothing matches; by default there is none */
+  fallback?: Environment;
+}
+
+/**
+ * Options for {@link registerEnvironment}.
+ */
+export interface EnvironmentDefinition {
+  /** Alternative names resolving to the environment */
+  aliases?: string[];
+  /** Browser hostnames resolving to the environment */
+  hostnames?: (string | RegExp)[];
+}
+
+const DEFAULT_ENVIRONMENT_ALIASES: Readonly<Record<string, Environment>> = {
+  dev: ENV.Development,
+  develop: ENV.Development,
+  local: ENV.Development,
+  prod: ENV.Production,
+  qa: ENV.Test,
+  testing: ENV.Test,
+  stage: ENV.Staging,
+  stg: ENV.Staging,
+};
+
+/**
+ * The settings of {@link getEnvironment}; only the fallback may be unset.
+ */
+export type ResolvedEnvironmentConfig = Required<
+  Omit<EnvironmentConfig, 'fallback'>
+> &
+  Pick<EnvironmentConfig, 'fallback'>;
+
+const defaultEnvironmentConfig = (): ResolvedEnvironmentConfig => ({
+  keys: ['APP_ENV', 'NODE_ENV'],
+  aliases: { ...DEFAULT_ENVIRONMENT_ALIASES },
+  hostnames: [
+    { hostname: 'localhost', environment: ENV.Development },
+    { hostname: '127.0.0.1', environment: ENV.Development },
+  ],
+});
+
+let environmentConfig = defaultEnvironmentConfig();
+const environments = new Set<string>(Object.values(ENV));
+
 /**
  * Check if code is running in a browser environment.
  * @returns {boolean} true if browser, otherwise false.
@@ -67,61 +174,251 @@ export const isBrowser =
  */
 export const isServer = !isBrowser;
 
+/**
+ * Check if the current execution is happening on the server during SSR.
+ *
+ * @returns {boolean}: true if server-side rendering, else false.
+ */
+export const isSSR = (): boolean => {
+  return typeof window === 'undefined' || typeof document === 'undefined';
+};
+
+/**
+ * Check if the current execution is happening on the client during CSR.
+ *
+ * @returns {boolean}: true if client-side rendering, else false.
+ */
+export const isCSR = (): boolean => {
+  return typeof window !== 'undefined' && typeof document !== 'undefined';
+};
+
+const matchesHostname = (hostname: string, rule: string | RegExp): boolean => {
+  if (typeof rule !== 'string') return rule.test(hostname);
+  const expected = rule.toLowerCase();
+  return expected.startsWith('*.')
+    ? hostname.endsWith(expected.slice(1))
+    : hostname === expected;
+};
+
+/**
+ * Resolve a name or alias to a known environment.
+ *
+ * @example
+ * toEnvironment('PROD'); // 'production'
+ * toEnvironment('nope'); // undefined
+ *
+ * @param name - An environment name or alias, in any case.
+ * @returns The environment, or `undefined` if the name is unknown.
+ */
+export function toEnvironment(name: string): Environment | undefined {
+  const normalized = name.trim().toLowerCase();
+  const resolved = environmentConfig.aliases[normalized] ?? normalized;
+  return environments.has(resolved) ? (resolved as Environment) : undefined;
+}
+
+/**
+ * Get the known environments, including registered ones.
+ */
+export function getEnvironmentNames(): Environment[] {
+  return [...environments] as Environment[];
+}
+
+/**
+ * Resolve the current environment.
+ *
+ * The configured keys are checked in order (`APP_ENV`, then `NODE_ENV` by
+ * default) and their values resolved through the aliases; unknown values are
+ * skipped. In the browser, the hostname rules are checked next. Otherwise the
+ * configured fallback is returned; there is none by default, so a server
+ * without `APP_ENV` or `NODE_ENV` has no environment and every `isDev()`/
+ * `isProd()`/... check is false.
+ *
+ * The result is computed on every call, as are the `isDev()`/`isProd()`/...
+ * checks built on it. While the public guard is active, server-only keys of
+ * the configured env source are skipped, so the browser resolves the
+ * environment from public keys and hostname rules.
+ *
+ * @example
+ * // APP_ENV=staging NODE_ENV=production
+ * getEnvironment(); // 'staging'
+ *
+ * @param source - Variables to read, defaults to the configured env source.
+ * @returns The environment, or `undefined` if nothing matches and no fallback is configured.
+ */
+export function getEnvironment(
+  source: EnvSource = getEnvSource(),
+): Environment | undefined {
+  const guarded = source === getEnvSource() && isPublicGuardActive();
+  for (const key of environmentConfig.keys) {
+    if (guarded && !isPublicKey(key)) continue;
+    const value = source.get(key);
+    const environment = value ? toEnvironment(value) : undefined;
+    if (environment) return environment;
+  }
+
+  const hostname = isCSR() ? window.location?.hostname?.toLowerCase() : undefined;
+  if (hostname) {
+    const rule = environmentConfig.hostnames.find((entry) =>
+      matchesHostname(hostname, entry.hostname),
+    );
+    if (rule) return rule.environment;
+  }
+
+  return environmentConfig.fallback;
+}
+
 /**
  * Check current environment is development.
  *
  * @returns {boolean}: true if development, else false.
  */
-export const isDev =
-  (typeof process !== 'undefined' && process.env?.NODE_ENV === ENV.Development) ||
-  (isBrowser && window.location?.hostname === 'localhost');
+export const isDevEnv = (): boolean => getEnvironment() === ENV.Development;
 
 /**
  * Check current environment is production.
  *
  * @returns {boolean}: true if production, else false.
  */
-export const isProd = process.env.NODE_ENV === ENV.Production;
+export const isProdEnv = (): boolean => getEnvironment() === ENV.Production;
 
 /**
  * Check current environment is test.
  *
  * @returns {boolean}: true if test, else false.
  */
-export const isTest = process.env.NODE_ENV === ENV.Test;
+export const isTestEnv = (): boolean => getEnvironment() === ENV.Test;
 
 /**
  * Check current environment is staging.
  *
  * @returns {boolean}: true if staging, else false.
  */
-export const isStage = process.env.NODE_ENV === ENV.Staging;
+export const isStageEnv = (): boolean => getEnvironment() === ENV.Staging;
 
 /**
  * Check current environment is uat (User Acceptance Testing).
  *
  * @returns {boolean}: true if uat, else false.
  */
-export const isUat = process.env.NODE_ENV === ENV.UAT;
+export const isUatEnv = (): boolean => getEnvironment() === ENV.UAT;
 
 /**
- * Check if the current execution is happening on the server during SSR.
+ * Whether the environment is development, resolved when the module loads and
+ * again whenever the environment configuration changes.
  *
- * @returns {boolean}: true if server-side rendering, else false.
+ * @deprecated Use {@link isDevEnv}, which also follows later changes to the source.
  */
-export const isSSR = (): boolean => {
-  return typeof window === 'undefined' || typeof document === 'undefined';
-};
+export let isDev = isDevEnv();
 
 /**
- * Check if the current execution is happening on the client during CSR.
+ * Whether the environment is production, see {@link isDev}.
  *
- * @returns {boolean}: true if client-side rendering, else false.
+ * @deprecated Use {@link isProdEnv}.
  */
-export const isCSR = (): boolean => {
-  return typeof window !== 'undefined' && typeof document !== 'undefined';
+export let isProd = isProdEnv();
+
+/**
+ * Whether the environment is test, see {@link isDev}.
+ *
+ * @deprecated Use {@link isTestEnv}.
+ */
+export let isTest = isTestEnv();
+
+/**
+ * Whether the environment is staging, see {@link isDev}.
+ *
+ * @deprecated Use {@link isStageEnv}.
+ */
+export let isStage = isStageEnv();
+
+/**
+ * Whether the environment is uat, see {@link isDev}.
+ *
+ * @deprecated Use {@link isUatEnv}.
+ */
+export let isUat = isUatEnv();
+
+/**
+ * Resolve the deprecated environment booleans again.
+ */
+const refreshEnvironmentFlags = (): void => {
+  isDev = isDevEnv();
+  isProd = isProdEnv();
+  isTest = isTestEnv();
+  isStage = isStageEnv();
+  isUat = isUatEnv();
 };
 
+/**
+ * Configure how {@link getEnvironment} resolves the environment.
+ *
+ * @example
+ * configureEnvironment({
+ *   keys: ['APP_ENV', 'NODE_ENV'],
+ *   aliases: { live: 'production' },
+ *   hostnames: [{ hostname: '*.staging.example.com', environment: 'staging' }],
+ *   fallback: 'development',
+ * });
+ *
+ * @param config - The settings to change; others keep their current value.
+ */
+export function configureEnvironment(config: EnvironmentConfig): void {
+  environmentConfig = {
+    keys: config.keys ?? environmentConfig.keys,
+    aliases: { ...environmentConfig.aliases, ...config.aliases },
+    hostnames: config.hostnames ?? environmentConfig.hostnames,
+    fallback: config.fallback ?? environmentConfig.fallback,
+  };
+  refreshEnvironmentFlags();
+}
+
+/**
+ * Get the current environment resolution settings.
+ */
+export function getEnvironmentConfig(): Readonly<ResolvedEnvironmentConfig> {
+  return environmentConfig;
+}
+
+/**
+ * Register a custom environment such as `preview` or `sandbox`.
+ *
+ * Add it to {@link EnvironmentRegistry} as well to extend the `Environment` type.
+ *
+ * @example
+ * registerEnvironment('preview', { aliases: ['pr'], hostnames: ['*.preview.example.com'] });
+ *
+ * @param name - The environment name.
+ * @param definition - Aliases and hostnames resolving to the environment.
+ */
+export function registerEnvironment(
+  name: Environment,
+  definition: EnvironmentDefinition = {},
+): void {
+  environments.add(name);
+  configureEnvironment({
+    aliases: Object.fromEntries(
+      (definition.aliases ?? []).map((alias) => [alias.toLowerCase(), name]),
+    ),
+    hostnames: [
+      ...(definition.hostnames ?? []).map((hostname) => ({
+        hostname,
+        environment: name,
+      })),
+      ...environmentConfig.hostnames,
+    ],
+  });
+}
+
+/**
+ * Restore the default environment configuration and forget custom environments.
+ */
+export function resetEnvironmentConfig(): void {
+  environmentConfig = defaultEnvironmentConfig();
+  environments.clear();
+  Object.values(ENV).forEach((name) => environments.add(name));
+  refreshEnvironmentFlags();
+}
+
 /**
  * Check if a specific environment variable is defined.
  *
@@ -133,66 +430,62 @@ export const isCSR = (): boolean => {
  */
 export const isEnvVarDefined = (key: string): boolean => {
   if (!key) return false;
-  return (
-    typeof process !== 'undefined' &&
-    typeof process.env[key] !== 'undefined' &&
-    process.env[key] !== ''
-  );
+  const value = getEnvSource().get(key);
+  const defined = typeof value !== 'undefined' && value !== '';
+  recordEnvAccess(key, { found: defined });
+  return defined;
 };
 
 /**
  * Get environment variable value with type support and default fallback
  *
+ * The type of the value is guessed from its content, so `01234` becomes the
+ * number `1234`. Use the typed accessors (`envString`, `envNumber`, `envInt`,
+ * `envBool`, `envJson`, `envArray`, `envEnum`, `envUrl`) when the type is known.
+ *
+ * @example
+ * // DATABASE_URL=postgres://${DB_USER}@${DB_HOST}
+ * env('DATABASE_URL', undefined, { expand: true });
+ *
  * @param key - The environment variable name
  * @param defaultValue - Optional default value if env var is not set
+ * @param options - Optional lookup options
  * @returns The environment variable value or default value
+ * @throws {EnvAccessError} When reading a server-only variable in the browser in guard mode
  */
 export function env<T = string>(
   key: string,
   defaultValue?: T,
+  options: EnvOptions = {},
 ): T | string | number | boolean | [] | undefined {
   if (!key) return defaultValue;
+  assertPublicAccess(key);
 
-  const value = process.env[key];
+  const raw = getEnvSource().get(key);
+  // getAllEnv() leaves out server-only variables while the guard is active
+  const value = options.expand && raw ? expandValue(raw, getAllEnv()) : raw;
+  const found = value !== undefined && value !== '';
+  recordEnvAccess(key, { found, defaulted: !found && defaultValue !== undefined });
 
-  if (value === undefined || value === '') {
+  if (!found) {
     return defaultValue;
   }
 
   try {
-    // Handle string values that might be JSON
-    if (typeof value === 'string') {
-      // Try to parse JSON strings
-      if (
-        (value.startsWith('{') && value.endsWith('}')) ||
-        (value.startsWith('[') && value.endsWith(']'))
-      ) {
-        return JSON.parse(value) as T;
-      }
-
-      // Handle boolean values
-      if (value.toLowerCase() === 'true') return true;
-      if (value.toLowerCase() === 'false') return false;
-
-      // Handle number values
-      if (!isNaN(Number(value))) return Number(value);
+    // Try to parse JSON strings
+    if (
+      (value.startsWith('{') && value.endsWith('}')) ||
+      (value.startsWith('[') && value.endsWith(']'))
+    ) {
+      return JSON.parse(value) as T;
     }
 
-    // Handle array values
-    if (Array.isArray(value)) {
-      return safeArray(value) as T;
-    }
+    // Handle boolean values
+    if (value.toLowerCase() === 'true') return true;
+    if (value.toLowerCase() === 'false') return false;
 
-    // Handle object values
-    if (typeof value === 'object') {
-      if (value === null) return defaultValue;
-      // If it's already an object, try to parse it as JSON
-      if (Object.keys(value).length > 0) {
-        return value as T;
-      }
-
-      return defaultValue;
-    }
+    // Handle number values
+    if (!isNaN(Number(value))) return Number(value);
   } catch (error) {
     console.error(`Error parsing value for ${key}:`, error);
     return defaultValue;
@@ -204,10 +497,14 @@ export function env<T = string>(
 /**
  * Get all environment variables as an object
  *
+ * In the browser with the public guard enabled (see `configurePublicEnv`), only
+ * the public variables are returned.
+ *
  * @returns Object containing all environment variables
  */
 export function getAllEnv(): Record<string, string | undefined> {
-  return { ...process.env };
+  const vars = envSourceToObject();
+  return isPublicGuardActive() ? getPublicEnv(vars) : vars;
 }
 
 /**
@@ -226,3 +523,24 @@ export function validateRequiredEnv(required: string[]): {
     missing,
   };
 }
+
+/**
+ * Assert that all required environment variables are present.
+ *
+ * @example
+ * assertRequiredEnv(['DATABASE_URL', 'API_KEY'], { exitOnError: true });
+ *
+ * @param required - Array of required environment variable names
+ * @param options - Set `exitOnError` to print the report and exit instead of throwing
+ * @throws {EnvValidationError} Listing every missing variable
+ */
+export function assertRequiredEnv(
+  required: string[],
+  options: EnvErrorReportOptions = {},
+): void {
+  const { missing } = validateRequiredEnv(required);
+  if (missing.length === 0) return;
+
+  const issues = missing.map((key) => ({ key, reason: 'is required' }));
+  reportValidationError(new EnvValidationError(issues), options);
+}
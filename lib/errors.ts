@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Aggregated environment validation errors.
+ *
+ * {@link EnvValidationError} collects every problem found while validating
+ * the environment, so a misconfigured deployment reports all of them at once.
+ * It renders as a readable multi-line report for terminals and serializes to
+ * structured JSON for log pipelines. Received values are redacted with the
+ * same rules as {@link safeStringify}.
+ *
+ * @example
+ * try {
+ *   defineEnv(schema);
+ * } catch (error) {
+ *   if (error instanceof EnvValidationError) {
+ *     logger.error(error.toJSON());
+ *   }
+ * }
+ *
+ * @module errors
+ */
+
+import { redactValue } from './redact.js';
+
+/**
+ * A single validation failure.
+ */
+export interface EnvIssue {
+  /** The variable name */
+  key: string;
+  /** Why the value was rejected */
+  reason: string;
+  /** Description of the accepted format */
+  expected?: string;
+  /** The received value, redacted when the key looks sensitive */
+  received?: string;
+  /** Description of the variable */
+  description?: string;
+}
+
+/**
+ * Options for reporting validation failures.
+ */
+export interface EnvErrorReportOptions {
+  /** Print the report and call `process.exit(1)` instead of throwing */
+  exitOnError?: boolean;
+}
+
+const MAX_RECEIVED_LENGTH = 80;
+
+/**
+ * Redact a received value for display in an error report.
+ *
+ * @param key - The variable name, used to decide whether the value is sensitive.
+ * @param value - The raw value.
+ * @returns The redacted, length-limited value or `undefined` if there was none.
+ */
+export function redactReceived(
+  key: string,
+  value: string | undefined,
+): string | undefined {
+  if (value === undefined) return undefined;
+  const redacted = redactValue(key, value);
+  return redacted.length > MAX_RECEIVED_LENGTH
+    ? `${redacted.slice(0, MAX_RECEIVED_LENGTH)}…`
+    : redacted;
+}
+
+/**
+ * Get the reason a value was rejected, safe to report.
+ *
+ * Validator messages may quote the raw value, so they are only used when the
+ * value is shown in full. Otherwise the reason is built from the redacted
+ * value and the accepted format.
+ *
+ * @example
+ * rejectionReason('PORT', 'abc', '"abc" is not a number', 'a number');
+ * // '"abc" is not a number'
+ * rejectionReason('DB_PASSWORD', 'a', '"a" is not a number', 'a number');
+ * // '"[REDACTED]" is not a number'
+ *
+ * @param key - The variable name, used to decide whether the value is sensitive.
+ * @param raw - The rejected value.
+ * @param message - The message of the validator.
+ * @param expected - Description of the accepted format.
+ */
+export function rejectionReason(
+  key: string,
+  raw: string,
+  message: string,
+  expected: string,
+): string {
+  const received = redactReceived(key, raw);
+  return received === raw
+    ? message
+    : `${JSON.stringify(received)} is not ${expected}`;
+}
+
+/**
+ * Error listing every environment variable that failed validation.
+ */
+export class EnvValidationError extends Error {
+  /** The individual failures */
+  readonly issues: readonly EnvIssue[];
+
+  constructor(issues: EnvIssue[], title = 'Invalid environment configuration') {
+    super(EnvValidationError.formatIssues(title, issues));
+    this.name = 'EnvValidationError';
+    this.issues = Object.freeze([...issues]);
+  }
+
+  /**
+   * Render a title and issues as a multi-line report.
+   */
+  static formatIssues(title: string, issues: readonly EnvIssue[]): string {
+    const count = `${issues.length} problem${issues.length === 1 ? '' : 's'}`;
+    const lines = [`${title} (${count}):`];
+
+    for (const issue of issues) {
+      lines.push('', `  ✖ ${issue.key}: ${issue.reason}`);
+      if (issue.expected) lines.push(`      expected: ${issue.expected}`);
+      if (issue.received !== undefined) {
+        lines.push(`      received: ${JSON.stringify(issue.received)}`);
+      }
+      if (issue.description) lines.push(`      description: ${issue.description}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * The multi-line report, suitable for terminals.
+   */
+  format(): string {
+    return this.message;
+  }
+
+  /**
+   * A structured form, suitable for JSON log pipelines.
+   */
+  toJSON(): { name: string; message: string; issues: EnvIssue[] } {
+    return {
+      name: this.name,
+      message: `${this.issues.length} environment variable(s) failed validation`,
+      issues: this.issues.map((issue) => ({ ...issue })),
+    };
+  }
+}
+
+/**
+ * Throw the given error, or print it and exit the process when `exitOnError` is set.
+ *
+ * @param error - The validation error.
+ * @param options - Reporting options.
+ */
+export function reportValidationError(
+  error: EnvValidationError,
+  options: EnvErrorReportOptions = {},
+): never {
+  if (options.exitOnError && typeof process !== 'undefined') {
+    console.error(error.format());
+    process.exit(1);
+  }
+  throw error;
+}
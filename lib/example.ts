@@ -0,0 +1,230 @@
+/**
+ * @fileoverview `.env.example` generation and drift detection.
+ *
+ * This module provides utilities for:
+ * - Comparing an env file (or the current environment) with `.env.example` to find
+ *   missing keys, unknown keys and empty values
+ * - Generating `.env.example` from an env file, keeping comments and grouping
+ *   but stripping values, or from a schema with descriptions
+ * - Updating an existing `.env.example` with keys it does not list yet
+ *
+ * @example
+ * const drift = compareEnvExample({ envFile: '.env' });
+ * if (!drift.isValid) console.error(`Missing: ${drift.missing.join(', ')}`);
+ *
+ * writeFileSync('.env.example', generateEnvExample(readFileSync('.env', 'utf8')));
+ *
+ * @module example
+ */
+
+import { validateRequiredEnv } from './env.js';
+import { parseEnvEntries, readEnvFile } from './parser.js';
+import type { EnvSchema } from './schema.js';
+import { getEnvSource } from './sources.js';
+
+/**
+ * Options for {@link compareEnvExample}.
+ */
+export interface CompareEnvExampleOptions {
+  /** Env file to check; when omitted, the configured env source is checked */
+  envFile?: string;
+  /** The example file listing the expected keys, defaults to `.env.example` */
+  exampleFile?: string;
+}
+
+/**
+ * Differences between an environment and its example file.
+ */
+export interface EnvDriftReport {
+  /** true when no key listed in the example is missing */
+  isValid: boolean;
+  /** Keys listed in the example but not set */
+  missing: string[];
+  /** Keys set in the env file but not listed in the example */
+  extra: string[];
+  /** Keys present with an empty value */
+  empty: string[];
+}
+
+/**
+ * Options for {@link generateEnvExample}.
+ */
+export interface GenerateEnvExampleOptions {
+  /** Descriptions to insert as comments above keys that have none */
+  descriptions?: Record<string, string>;
+}
+
+/**
+ * List the keys declared in an example file.
+ *
+ * @param exampleFile - Path to the example file, defaults to `.env.example`.
+ */
+export function readExampleKeys(exampleFile = '.env.example'): string[] {
+  return [...new Set(readEnvFile(exampleFile).map((entry) => entry.key))];
+}
+
+/**
+ * Compare an env file, or the configured env source, with `.env.example`.
+ *
+ * Keys are missing when they are not set or empty, following
+ * {@link validateRequiredEnv}. Extra keys are only reported for env files,
+ * since the environment always holds unrelated variables.
+ *
+ * @param options - The files to compare.
+ * @returns The missing, extra and empty keys.
+ */
+export function compareEnvExample(
+  options: CompareEnvExampleOptions = {},
+): EnvDriftReport {
+  const expected = readExampleKeys(options.exampleFile);
+
+  if (!options.envFile) {
+    const { missing } = validateRequiredEnv(expected);
+    const empty = expected.filter((key) => getEnvSource().get(key) === '');
+    return { isValid: missing.length === 0, missing, extra: [], empty };
+  }
+
+  const values = new Map(readEnvFile(options.envFile).map((e) => [e.key, e.value]));
+  const missing = expected.filter((key) => !values.get(key));
+  const extra = [...values.keys()].filter((key) => !expected.includes(key));
+  const empty = [...values].filter(([, value]) => value === '').map(([key]) => key);
+
+  return { isValid: missing.length === 0, missing, extra, empty };
+}
+
+const commentFor = (description: string): string[] =>
+  description.split(/\r?\n/).map((line) => `# ${line}`.trimEnd());
+
+/**
+ * Render a schema as example file lines.
+ */
+const schemaToExample = (schema: EnvSchema): string[] => {
+  const lines: string[] = [];
+
+  for (const [key, validator] of Object.entries(schema)) {
+    const { description, expected, requiredIn, optional } = validator.meta;
+    const defaults = {
+      ...(validator.meta.default !== undefined && {
+        default: validator.meta.default,
+      }),
+      ...validator.meta.defaultByEnv,
+    };
+
+    const details = [expected];
+    for (const [name, value] of Object.entries(defaults)) {
+      details.push(`${name}: ${JSON.stringify(value)}`);
+    }
+    if (requiredIn.length > 0) {
+      details.push(`required in: ${requiredIn.join(', ')}`);
+    } else if (optional) {
+      details.push('optional');
+    }
+
+    if (lines.length > 0) lines.push('');
+    if (description) lines.push(...commentFor(description));
+    lines.push(`# ${details.join('; ')}`, `${key}=`);
+  }
+
+  return lines;
+};
+
+/**
+ * Render env file text as example file lines, stripping values.
+ */
+const textToExample = (
+  text: string,
+  descriptions: Record<string, string>,
+): string[] => {
+  const sourceLines = text.replace(/\r\n?/g, '\n').split('\n');
+  const starts = new Map(parseEnvEntries(text).map((entry) => [entry.line, entry]));
+  const lines: string[] = [];
+
+  for (let line = 1; line <= sourceLines.length; line++) {
+    const entry = starts.get(line);
+    if (!entry) {
+      lines.push(sourceLines[line - 1]);
+      continue;
+    }
+
+    const previous = lines[lines.length - 1] ?? '';
+    const description = descriptions[entry.key];
+    if (description && !previous.trimStart().startsWith('#')) {
+      lines.push(...commentFor(description));
+    }
+
+    const prefix = /^\s*export\s/.test(sourceLines[line - 1]) ? 'export ' : '';
+    lines.push(`${prefix}${entry.key}=${entry.comment?.trimEnd() ?? ''}`);
+    line = entry.endLine;
+  }
+
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+/**
+ * Generate `.env.example` content from env file text or a schema.
+ *
+ * From env file text, comments, blank lines and key order are kept and every
+ * value is stripped. From a schema, each key gets its description, expected
+ * format and default as comments.
+ *
+ * @example
+ * generateEnvExample('# Server\nPORT=3000\nAPI_TOKEN="abc"');
+ * // '# Server\nPORT=\nAPI_TOKEN=\n'
+ *
+ * generateEnvExample({ PORT: port().default(3000).describe('HTTP port') });
+ * // '# HTTP port\n# a port number between 1 and 65535; default: 3000\nPORT=\n'
+ *
+ * @param source - Env file text or a schema.
+ * @param options - Generation options.
+ * @returns The example file content.
+ */
+export function generateEnvExample(
+  source: string | EnvSchema,
+  options: GenerateEnvExampleOptions = {},
+): string {
+  const lines =
+    typeof source === 'string'
+      ? textToExample(source, options.descriptions ?? {})
+      : schemaToExample(source);
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Add keys missing from existing `.env.example` content.
+ *
+ * Existing lines, including placeholder values, are kept untouched; new keys
+ * are appended with their comments.
+ *
+ * @param example - The current example file content.
+ * @param source - Env file text or a schema holding the complete set of keys.
+ * @param options - Generation options.
+ * @returns The updated example file content.
+ */
+export function updateEnvExample(
+  example: string,
+  source: string | EnvSchema,
+  options: GenerateEnvExampleOptions = {},
+): string {
+  const known = new Set(parseEnvEntries(example).map((entry) => entry.key));
+  const sourceKeys =
+    typeof source === 'string'
+      ? parseEnvEntries(source).map((entry) => entry.key)
+      : Object.keys(source);
+  const missing = sourceKeys.filter((key) => !known.has(key));
+
+  if (missing.length === 0) return example;
+
+  const additions =
+    typeof source === 'string'
+      ? missing.flatMap((key) => {
+          const description = options.descriptions?.[key];
+          return [...(description ? commentFor(description) : []), `${key}=`];
+        })
+      : schemaToExample(
+          Object.fromEntries(missing.map((key) => [key, source[key]])),
+        );
+
+  return `${example.trimEnd()}\n\n${additions.join('\n')}\n`;
+}
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Variable expansion for environment values.
+ *
+ * Supported syntax:
+ * - `${VAR}` and `$VAR` reference another variable
+ * - `${VAR:-default}` falls back to `default` when `VAR` is unset or empty
+ * - `${VAR:?message}` throws with `message` when `VAR` is unset or empty
+ * - `\$` produces a literal `$`
+ *
+ * References are resolved recursively in dependency order, and circular
+ * references throw an {@link EnvExpansionError} naming the cycle.
+ *
+ * @example
+ * expandEnv({
+ *   DB_HOST: 'localhost',
+ *   DATABASE_URL: 'postgres://${DB_USER:-admin}@${DB_HOST}',
+ * });
+ * // { DB_HOST: 'localhost', DATABASE_URL: 'postgres://admin@localhost' }
+ *
+ * @module expand
+ */
+
+import { envSourceToObject } from './sources.js';
+
+/**
+ * Options for {@link expandEnv}.
+ */
+export interface ExpandEnvOptions {
+  /** Values used for references that are not part of the expanded map, defaults to the configured env source */
+  source?: Record<string, string | undefined>;
+  /** Keys whose values are taken literally, e.g. single-quoted values from a file */
+  literalKeys?: Iterable<string>;
+  /**
+   * Resolve references from `source` before `vars`, as when the expanded
+   * values do not override variables that are already set; defaults to false
+   */
+  sourceFirst?: boolean;
+}
+
+/**
+ * Error thrown when a value cannot be expanded.
+ */
+export class EnvExpansionError extends Error {
+  /** The variable being expanded when the error occurred */
+  readonly key?: string;
+
+  constructor(message: string, key?: string) {
+    super(message);
+    this.name = 'EnvExpansionError';
+    this.key = key;
+  }
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_CHAR = /[A-Za-z0-9_]/;
+
+/**
+ * Find the index of the `}` closing the `${` that starts at `open`.
+ */
+const findClosingBrace = (value: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i += 1;
+    } else if (value[i] === '$' && value[i + 1] === '{') {
+      depth += 1;
+      i += 1;
+    } else if (value[i] === '}') {
+      depth -= 1;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Expand references in a single string.
+ *
+ * @param value - The string to expand.
+ * @param lookup - Resolves a referenced variable name to its value.
+ * @param key - The variable being expanded, used in error messages.
+ */
+const expandString = (
+  value: string,
+  lookup: (name: string) => string | undefined,
+  key?: string,
+): string => {
+  let result = '';
+  let i = 0;
+
+  while (i < value.length) {
+    const char = value[i];
+
+    if (char === '\\' && value[i + 1] === '$') {
+      result += '$';
+      i += 2;
+      continue;
+    }
+
+    if (char !== '$') {
+      result += char;
+      i += 1;
+      continue;
+    }
+
+    // ${VAR}, ${VAR:-default}, ${VAR:?message}
+    if (value[i + 1] === '{') {
+      const close = findClosingBrace(value, i);
+      if (close === -1) {
+        throw new EnvExpansionError(
+          `Unterminated "\${" in value${key ? ` of ${key}` : ''}`,
+          key,
+        );
+      }
+
+      const body = value.slice(i + 2, close);
+      const match = /^([A-Za-z_][A-Za-z0-9_]*)(?:(:-|:\?)([\s\S]*))?$/.exec(body);
+      if (!match) {
+        throw new EnvExpansionError(
+          `Invalid reference "\${${body}}"${key ? ` in ${key}` : ''}`,
+          key,
+        );
+      }
+
+      const [, name, operator, operand = ''] = match;
+      const resolved = lookup(name);
+      const isEmpty = resolved === undefined || resolved === '';
+
+      if (operator === ':-' && isEmpty) {
+        result += expandString(operand, lookup, key);
+      } else if (operator === ':?' && isEmpty) {
+        const message = expandString(operand, lookup, key) || 'is not set';
+        throw new EnvExpansionError(`${name}: ${message}`, key);
+      } else {
+        result += resolved ?? '';
+      }
+
+      i = close + 1;
+      continue;
+    }
+
+    // $VAR
+    if (NAME_START.test(value[i + 1] ?? '')) {
+      let end = i + 2;
+      while (end < value.length && NAME_CHAR.test(value[end])) end += 1;
+      result += lookup(value.slice(i + 1, end)) ?? '';
+      i = end;
+      continue;
+    }
+
+    // A lone `$` is kept as-is
+    result += char;
+    i += 1;
+  }
+
+  return result;
+};
+
+/**
+ * Create a resolver that expands variables from `vars` on demand, memoizing
+ * results and detecting circular references.
+ */
+const createResolver = (
+  vars: Record<string, string | undefined>,
+  source: Record<string, string | undefined>,
+  literalKeys: Set<string>,
+  sourceFirst = false,
+) => {
+  const resolved = new Map<string, string | undefined>();
+  const stack: string[] = [];
+
+  // Own properties only, so `$toString` does not reach `Object.prototype`
+  const fromSource = (name: string): string | undefined =>
+    Object.hasOwn(source, name) ? source[name] : undefined;
+
+  const lookup = (name: string): string | undefined => {
+    const sourceValue = fromSource(name);
+    // References prefer the source when it wins over `vars`
+    if (sourceFirst && sourceValue !== undefined) return sourceValue;
+    // `PATH=$PATH:/x` extends the value already in the source
+    if (stack.at(-1) === name && sourceValue !== undefined) return sourceValue;
+    return resolve(name);
+  };
+
+  const resolve = (name: string): string | undefined => {
+    if (resolved.has(name)) return resolved.get(name);
+
+    if (!Object.hasOwn(vars, name)) return fromSource(name);
+
+    const raw = vars[name];
+    if (raw === undefined || literalKeys.has(name)) {
+      resolved.set(name, raw);
+      return raw;
+    }
+
+    if (stack.includes(name)) {
+      const cycle = [...stack.slice(stack.indexOf(name)), name].join(' -> ');
+      throw new EnvExpansionError(`Circular variable reference: ${cycle}`, name);
+    }
+
+    stack.push(name);
+    try {
+      const value = expandString(raw, lookup, name);
+      resolved.set(name, value);
+      return value;
+    } finally {
+      stack.pop();
+    }
+  };
+
+  return resolve;
+};
+
+/**
+ * Expand all references in a map of variables.
+ *
+ * References to keys inside `vars` are expanded first (in dependency order);
+ * other references are looked up in `options.source`, which defaults to
+ * the configured env source. With `sourceFirst`, references to variables
+ * set in the source use the source value, so expanded values agree with the
+ * variables that are kept.
+ *
+ * @param vars - The variables to expand.
+ * @param options - Expansion options.
+ * @returns A new map with every value expanded.
+ * @throws {EnvExpansionError} On circular references, `${VAR:?message}` failures
+ * or malformed references.
+ */
+export function expandEnv(
+  vars: Record<string, string>,
+  options: ExpandEnvOptions = {},
+): Record<string, string> {
+  const {
+    source = envSourceToObject(),
+    literalKeys = [],
+    sourceFirst = false,
+  } = options;
+  const resolve = createResolver(vars, source, new Set(literalKeys), sourceFirst);
+
+  const expanded: Record<string, string> = {};
+  for (const key of Object.keys(vars)) {
+    expanded[key] = resolve(key) ?? '';
+  }
+  return expanded;
+}
+
+/**
+ * Expand references in a single value.
+ *
+ * Referenced variables are read from `vars` and are themselves expanded.
+ *
+ * @example
+ * expandValue('${HOME}/.cache');
+ * expandValue('$A-$B', { A: '1', B: '2' }); // '1-2'
+ *
+ * @param value - The string to expand.
+ * @param vars - The variables to reference, defaults to the configured env source.
+ * @returns The expanded string.
+ * @throws {EnvExpansionError} On circular references, `${VAR:?message}` failures
+ * or malformed references.
+ */
+export function expandValue(
+  value: string,
+  vars: Record<string, string | undefined> = envSourceToObject(),
+): string {
+  return expandString(value, createResolver(vars, {}, new Set()));
+}
@@ -1,2 +1,16 @@
-export * from './env';
-export * from './utils';
+export * from './accessors.js';
+export * from './env.js';
+export * from './errors.js';
+export * from './expand.js';
+export * from './memory.js';
+export * from './provenance.js';
+export * from './public.js';
+export * from './redact.js';
+export * from './schema.js';
+export * from './serialize.js';
+export * from './sources.js';
+export * from './switch.js';
+export * from './tracking.js';
+export * from './tree.js';
+export * from './utils.js';
+export * from './validators.js';
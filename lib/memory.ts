@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Memory usage reports and monitoring for servers and browsers.
+ *
+ * This module provides utilities for:
+ * - Reading heap usage on Node.js (`process.memoryUsage()` and the V8 heap
+ *   limit) and in browsers exposing `performance.memory`
+ * - Classifying usage as `ok`, `warn` or `critical` with configurable thresholds
+ * - Sampling periodically with {@link startMemoryMonitor}, with hysteresis so
+ *   alerts do not flap around a threshold
+ *
+ * @example
+ * const report = getMemoryReport({ warn: 70, critical: 85 });
+ * // { runtime: 'node', used: 52_000_000, total: 80_000_000, limit: 4_345_298_944, percent: 1.2, level: 'ok', ... }
+ *
+ * const monitor = startMemoryMonitor({
+ *   intervalMs: 10_000,
+ *   onThreshold: (report) => logger.warn(`memory ${report.level}: ${report.percent}%`),
+ * });
+ * monitor.stop();
+ *
+ * @module memory
+ */
+
+/**
+ * Severity of the memory usage.
+ */
+export type MemoryLevel = 'ok' | 'warn' | 'critical';
+
+/**
+ * Usage percentages of the heap limit at which the level changes.
+ */
+export interface MemoryThresholds {
+  /** Percentage at which usage becomes `warn`, defaults to 80 */
+  warn?: number;
+  /** Percentage at which usage becomes `critical`, defaults to 90 */
+  critical?: number;
+}
+
+/**
+ * A snapshot of the heap usage. Sizes are in bytes.
+ */
+export interface MemoryReport {
+  /** Where the numbers come from */
+  runtime: 'node' | 'browser';
+  /** Heap in use */
+  used: number;
+  /** Heap currently allocated */
+  total: number;
+  /** Maximum heap size, absent when the runtime does not expose it */
+  limit?: number;
+  /** `used` as a percentage of `limit`, rounded to two decimals; absent without a limit */
+  percent?: number;
+  /** Severity according to the thresholds, `ok` without a limit */
+  level: MemoryLevel;
+  /** Resident set size, Node.js only */
+  rss?: number;
+  /** Memory of C++ objects bound to JavaScript objects, Node.js only */
+  external?: number;
+}
+
+/**
+ * Options for {@link startMemoryMonitor}.
+ */
+export interface MemoryMonitorOptions extends MemoryThresholds {
+  /** Sampling interval in milliseconds, defaults to 30000 */
+  intervalMs?: number;
+  /** Percentage points usage must drop below a threshold before the level falls, defaults to 5 */
+  hysteresis?: number;
+  /** Called when the level changes, including back to `ok` */
+  onThreshold?: (report: MemoryReport, previous: MemoryLevel) => void;
+  /** Called with every sample */
+  onSample?: (report: MemoryReport) => void;
+}
+
+/**
+ * A running memory monitor.
+ */
+export interface MemoryMonitor {
+  /** The current level, after hysteresis */
+  readonly level: MemoryLevel;
+  /** The latest sample */
+  readonly last?: MemoryReport;
+  /** Stop sampling */
+  stop(): void;
+}
+
+interface BrowserMemory {
+  usedJSHeapSize: number;
+  totalJSHeapSize: number;
+  jsHeapSizeLimit?: number;
+}
+
+const LEVELS: readonly MemoryLevel[] = ['ok', 'warn', 'critical'];
+
+const browserMemory = (): BrowserMemory | undefined =>
+  (globalThis.performance as { memory?: BrowserMemory } | undefined)?.memory;
+
+/**
+ * Read the V8 heap limit. `node:v8` is looked up at runtime rather than
+ * imported, so browser and worker bundles never see it.
+ */
+const heapSizeLimit = (): number | undefined => {
+  if (!process.versions?.node) return undefined;
+  const v8 = process.getBuiltinModule?.('node:v8') as
+    | typeof import('node:v8')
+    | undefined;
+  return v8?.getHeapStatistics().heap_size_limit;
+};
+
+const levelOf = (percent: number, thresholds: MemoryThresholds): MemoryLevel => {
+  const { warn = 80, critical = 90 } = thresholds;
+  if (percent >= critical) return 'critical';
+  if (percent >= warn) return 'warn';
+  return 'ok';
+};
+
+/**
+ * Build the usage fields of a report. Without a known heap limit there is no
+ * percentage and the level stays `ok`: the allocated heap is no substitute,
+ * as it grows with usage and would keep the level high.
+ */
+const usage = (
+  used: number,
+  limit: number | undefined,
+  thresholds: MemoryThresholds,
+): Pick<MemoryReport, 'limit' | 'percent' | 'level'> => {
+  if (!limit) return { level: 'ok' };
+  const percent = Math.round((used / limit) * 10000) / 100;
+  return { limit, percent, level: levelOf(percent, thresholds) };
+};
+
+/**
+ * Read the current heap usage.
+ *
+ * `performance.memory` is used where available (Chromium browsers), otherwise
+ * `process.memoryUsage()` with the V8 heap limit. Where the heap limit cannot
+ * be read (Node.js before 20.16, runtimes without `node:v8`), the report has
+ * no `limit` or `percent` and its level is `ok`.
+ *
+ * @param thresholds - Percentages used to compute the level.
+ * @returns The report, or `undefined` when the runtime exposes no memory API.
+ */
+export function getMemoryReport(
+  thresholds: MemoryThresholds = {},
+): MemoryReport | undefined {
+  const memory = browserMemory();
+  if (memory) {
+    return {
+      runtime: 'browser',
+      used: memory.usedJSHeapSize,
+      total: memory.totalJSHeapSize,
+      ...usage(memory.usedJSHeapSize, memory.jsHeapSizeLimit, thresholds),
+    };
+  }
+
+  if (typeof process === 'undefined' || !process.memoryUsage) return undefined;
+
+  const { heapUsed, heapTotal, rss, external } = process.memoryUsage();
+  return {
+    runtime: 'node',
+    used: heapUsed,
+    total: heapTotal,
+    ...usage(heapUsed, heapSizeLimit(), thresholds),
+    rss,
+    external,
+  };
+}
+
+/**
+ * Compute the next level: rising is immediate, falling requires usage to drop
+ * `hysteresis` points below the threshold of the current level.
+ */
+const nextLevel = (
+  current: MemoryLevel,
+  percent: number | undefined,
+  thresholds: MemoryThresholds,
+  hysteresis: number,
+): MemoryLevel => {
+  if (percent === undefined) return 'ok';
+  const measured = levelOf(percent, thresholds);
+  if (LEVELS.indexOf(measured) >= LEVELS.indexOf(current)) return measured;
+  return levelOf(percent + hysteresis, thresholds);
+};
+
+/**
+ * Sample the memory usage periodically and report level changes.
+ *
+ * The first sample is taken immediately. The timer does not keep a Node.js
+ * process alive.
+ *
+ * @example
+ * const monitor = startMemoryMonitor({
+ *   warn: 75,
+ *   onThreshold: (report, previous) =>
+ *     console.warn(`memory ${previous} -> ${report.level} (${report.percent}%)`),
+ * });
+ *
+ * @param options - Thresholds, interval and callbacks.
+ * @returns A handle to read the level and stop the monitor.
+ */
+export function startMemoryMonitor(
+  options: MemoryMonitorOptions = {},
+): MemoryMonitor {
+  const { intervalMs = 30000, hysteresis = 5, onThreshold, onSample } = options;
+  const thresholds = { warn: options.warn, critical: options.critical };
+  let level: MemoryLevel = 'ok';
+  let last: MemoryReport | undefined;
+
+  const sample = () => {
+    const report = getMemoryReport(thresholds);
+    if (!report) return;
+
+    const previous = level;
+    level = nextLevel(level, report.percent, thresholds, hysteresis);
+    last = { ...report, level };
+
+    onSample?.(last);
+    if (level !== previous) onThreshold?.(last, previous);
+  };
+
+  sample();
+  const timer = setInterval(sample, intervalMs);
+  (timer as { unref?: () => void }).unref?.();
+
+  return {
+    get level() {
+      return level;
+    },
+    get last() {
+      return last;
+    },
+    stop: () => clearInterval(timer),
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Node.js-only entry point, `env-x-utils/node`.
+ *
+ * These modules read files, watch directories or use `node:crypto`, so they
+ * are kept out of the main entry point, which stays free of Node builtins
+ * for browsers and workers.
+ *
+ * @module node
+ */
+
+export * from './cascade.js';
+export * from './crypto.js';
+export * from './example.js';
+export * from './parser.js';
+export * from './secrets.js';
+export * from './typegen.js';
+export * from './usage.js';
+export * from './watch.js';
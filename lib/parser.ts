@@ -0,0 +1,401 @@
+/**
+ * @fileoverview Parser and loader for `.env` files.
+ *
+ * This module provides utilities for:
+ * - Parsing dotenv syntax into a plain key/value map
+ * - Loading a `.env` file from disk and merging it into `process.env`
+ * - Reporting syntax errors with their line and column
+ *
+ * Supported syntax:
+ * - `KEY=value` assignments, with an optional `export` prefix
+ * - Single, double and backtick quoted values, which may span several lines
+ * - Escape sequences (`\n`, `\r`, `\t`, `\"`, `\\`) inside double quotes
+ * - Full-line and inline `#` comments
+ * - LF and CRLF line endings
+ *
+ * @example
+ * // Load .env from the current working directory into process.env
+ * loadEnv();
+ *
+ * // Parse dotenv text without touching process.env
+ * const parsed = parseEnv('PORT=3000\nHOST="localhost"');
+ *
+ * @module parser
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+import {
+  decryptEnvValues,
+  DEFAULT_KEY_FILE,
+  type EnvKeyOptions,
+} from './crypto.js';
+import { expandEnv } from './expand.js';
+import { recordEnvOrigin, type EnvOrigin } from './provenance.js';
+
+/**
+ * Quote style used by a parsed value.
+ */
+export type EnvQuote = 'none' | 'single' | 'double' | 'backtick';
+
+/**
+ * A single assignment found in an env file.
+ */
+export interface EnvEntry {
+  /** The variable name */
+  key: string;
+  /** The value after quote and escape processing */
+  value: string;
+  /** How the value was quoted in the source text */
+  quote: EnvQuote;
+  /** 1-based line where the assignment starts */
+  line: number;
+  /** 1-based line where the assignment ends (differs for multiline values) */
+  endLine: number;
+  /** Text after the value holding an inline comment, e.g. `  # production` */
+  comment?: string;
+}
+
+/**
+ * Options for {@link loadEnv}.
+ */
+export interface LoadEnvOptions extends EnvKeyOptions {
+  /** File encoding, defaults to `utf8` */
+  encoding?: BufferEncoding;
+  /**
+   * Expand `${VAR}` references in unquoted, double and backtick quoted values,
+   * defaults to false. Unless `override` is set, references to variables that
+   * are already set use their current value.
+   */
+  expand?: boolean;
+  /** Merge parsed values into `process.env`, defaults to true */
+  merge?: boolean;
+  /** Replace keys that already exist in `process.env`, defaults to false */
+  override?: boolean;
+}
+
+/**
+ * Error thrown when env file content is not valid dotenv syntax.
+ */
+export class EnvParseError extends Error {
+  /** 1-based line of the offending character */
+  readonly line: number;
+  /** 1-based column of the offending character */
+  readonly column: number;
+  /** The file being parsed, when known */
+  readonly file?: string;
+
+  constructor(message: string, line: number, column: number, file?: string) {
+    super(`${message} (${file ? `${file}:` : 'line '}${line}:${column})`);
+    this.name = 'EnvParseError';
+    this.line = line;
+    this.column = column;
+    this.file = file;
+  }
+}
+
+const QUOTES: Record<string, EnvQuote> = {
+  "'": 'single',
+  '"': 'double',
+  '`': 'backtick',
+};
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '"': '"',
+  '\\': '\\',
+};
+
+const isKeyStart = (char: string): boolean => /[A-Za-z_]/.test(char);
+const isKeyChar = (char: string): boolean => /[A-Za-z0-9_.-]/.test(char);
+const isBlank = (char: string): boolean => char === ' ' || char === '\t';
+
+/**
+ * Parse dotenv text into a list of entries, keeping line information.
+ *
+ * Later assignments of the same key are kept as separate entries; use
+ * {@link parseEnv} for a plain map where the last assignment wins.
+ *
+ * @param text - The dotenv source text.
+ * @param file - Optional file name used in error messages.
+ * @returns The assignments in source order.
+ * @throws {EnvParseError} If the text contains a syntax error.
+ */
+export function parseEnvEntries(text: string, file?: string): EnvEntry[] {
+  const src = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const entries: EnvEntry[] = [];
+
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const fail = (
+    message: string,
+    at = pos,
+    atLine = line,
+    atLineStart = lineStart,
+  ): never => {
+    throw new EnvParseError(message, atLine, at - atLineStart + 1, file);
+  };
+  const skipBlanks = () => {
+    while (pos < src.length && isBlank(src[pos])) pos += 1;
+  };
+  const skipToLineEnd = () => {
+    while (pos < src.length && src[pos] !== '\n') pos += 1;
+  };
+
+  while (pos < src.length) {
+    skipBlanks();
+
+    const char = src[pos];
+    if (char === '#') skipToLineEnd();
+
+    if (pos >= src.length) break;
+    if (src[pos] === '\n') {
+      pos += 1;
+      line += 1;
+      lineStart = pos;
+      continue;
+    }
+
+    const startLine = line;
+
+    if (src.startsWith('export', pos) && isBlank(src[pos + 6] ?? '')) {
+      pos += 6;
+      skipBlanks();
+    }
+
+    if (!isKeyStart(src[pos])) {
+      fail(`Invalid variable name starting with '${src[pos]}'`);
+    }
+    const keyStart = pos;
+    while (pos < src.length && isKeyChar(src[pos])) pos += 1;
+    const key = src.slice(keyStart, pos);
+
+    skipBlanks();
+    if (src[pos] !== '=') {
+      fail(`Expected '=' after '${key}'`);
+    }
+    pos += 1;
+    skipBlanks();
+
+    let value = '';
+    let quote: EnvQuote = 'none';
+    let valueEnd = pos;
+    const quoteChar = src[pos];
+
+    if (quoteChar in QUOTES) {
+      quote = QUOTES[quoteChar];
+      const openAt = pos;
+      const openLine = line;
+      const openLineStart = lineStart;
+      pos += 1;
+
+      let closed = false;
+      while (pos < src.length) {
+        const current = src[pos];
+
+        if (current === '\\' && quote === 'double' && pos + 1 < src.length) {
+          const next = src[pos + 1];
+          // Unknown escapes keep their backslash so `\$` survives for expansion
+          value += DOUBLE_QUOTE_ESCAPES[next] ?? `\\${next}`;
+          pos += 2;
+          continue;
+        }
+        if (current === quoteChar) {
+          closed = true;
+          pos += 1;
+          break;
+        }
+        if (current === '\n') {
+          line += 1;
+          lineStart = pos + 1;
+        }
+        value += current;
+        pos += 1;
+      }
+
+      if (!closed) {
+        fail(`Unterminated ${quote} quoted value`, openAt, openLine, openLineStart);
+      }
+      valueEnd = pos;
+
+      skipBlanks();
+      if (pos < src.length && src[pos] === '#') skipToLineEnd();
+      if (pos < src.length && src[pos] !== '\n') {
+        fail(`Unexpected character '${src[pos]}' after quoted value`);
+      }
+    } else {
+      const valueStart = pos;
+      while (pos < src.length && src[pos] !== '\n') {
+        // An inline comment must be separated from the value by whitespace
+        if (src[pos] === '#' && (pos === valueStart || isBlank(src[pos - 1])))
+          break;
+        pos += 1;
+      }
+      value = src.slice(valueStart, pos).trim();
+      valueEnd = valueStart + value.length;
+      skipToLineEnd();
+    }
+
+    const comment = src.slice(valueEnd, pos);
+    entries.push({
+      key,
+      value,
+      quote,
+      line: startLine,
+      endLine: line,
+      ...(comment.includes('#') && { comment }),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse dotenv text into a key/value map.
+ *
+ * @example
+ * parseEnv('export API_URL="https://example.com" # production');
+ * // { API_URL: 'https://example.com' }
+ *
+ * @param text - The dotenv source text.
+ * @returns The parsed variables; when a key repeats, the last assignment wins.
+ * @throws {EnvParseError} If the text contains a syntax error.
+ */
+export function parseEnv(text: string): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  for (const entry of parseEnvEntries(text)) {
+    parsed[entry.key] = entry.value;
+  }
+  return parsed;
+}
+
+/**
+ * Merge parsed variables into `process.env`.
+ *
+ * The origin of each value is recorded for `describeEnv()`.
+ *
+ * @param parsed - The variables to merge.
+ * @param override - Replace keys that are already set.
+ * @param origins - Origins of the candidate values of each key, lowest precedence first.
+ */
+export function mergeIntoProcessEnv(
+  parsed: Record<string, string>,
+  override = false,
+  origins: Record<string, EnvOrigin[]> = {},
+): void {
+  if (typeof process === 'undefined') return;
+
+  for (const [key, value] of Object.entries(parsed)) {
+    const applied = override || process.env[key] === undefined;
+    recordEnvOrigin(
+      key,
+      value,
+      origins[key] ?? [{ type: 'source', source: 'mergeIntoProcessEnv' }],
+      applied,
+    );
+    if (applied) {
+      process.env[key] = value;
+    }
+  }
+}
+
+/**
+ * Read and parse an env file.
+ *
+ * @param path - Path to the env file.
+ * @param encoding - File encoding, defaults to `utf8`.
+ * @returns The assignments in source order.
+ * @throws {Error} If the file does not exist.
+ * @throws {EnvParseError} If the file contains a syntax error.
+ */
+export function readEnvFile(
+  path: string,
+  encoding: BufferEncoding = 'utf8',
+): EnvEntry[] {
+  const filePath = resolve(path);
+
+  if (!existsSync(filePath)) {
+    throw new Error(`Env file not found: ${filePath}`);
+  }
+
+  return parseEnvEntries(readFileSync(filePath, { encoding }), path);
+}
+
+/**
+ * Load a `.env` file and optionally merge it into `process.env`.
+ *
+ * Existing `process.env` keys are kept unless `override` is set, so values
+ * from the shell always win over values from the file by default.
+ *
+ * @example
+ * loadEnv();                                   // ./.env
+ * loadEnv('config/.env.local', { override: true });
+ * loadEnv('.env', { expand: true });           // resolve ${VAR} references
+ * loadEnv('.env.production', { keyFile: '.env.key' }); // decrypt encrypted: values
+ * const parsed = loadEnv('.env', { merge: false });
+ *
+ * @param path - Path to the env file, defaults to `.env` in the working directory.
+ * @param options - Loading options.
+ * @returns The variables parsed from the file.
+ * @throws {Error} If the file does not exist.
+ * @throws {EnvParseError} If the file contains a syntax error.
+ * @throws {EnvExpansionError} If `expand` is set and a reference cannot be resolved.
+ * @throws {EnvDecryptionError} If an encrypted value cannot be decrypted.
+ */
+export function loadEnv(
+  path = '.env',
+  options: LoadEnvOptions = {},
+): Record<string, string> {
+  const {
+    encoding = 'utf8',
+    expand = false,
+    merge = true,
+    override = false,
+  } = options;
+  const entries = readEnvFile(path, encoding);
+  let parsed: Record<string, string> = {};
+  const origins: Record<string, EnvOrigin[]> = {};
+  for (const entry of entries) {
+    parsed[entry.key] = entry.value;
+    (origins[entry.key] ??= []).push({
+      type: 'file',
+      file: path,
+      line: entry.line,
+    });
+  }
+
+  // Encrypted values are decrypted first and never expanded
+  const { values, decrypted } = decryptEnvValues(parsed, {
+    key: options.key,
+    keyFile: options.keyFile ?? join(dirname(resolve(path)), DEFAULT_KEY_FILE),
+  });
+  parsed = values;
+
+  if (expand) {
+    const literalKeys = entries
+      .filter((entry) => entry.quote === 'single')
+      .map((entry) => entry.key);
+    // Without override, references see the values that are kept
+    parsed = expandEnv(parsed, {
+      literalKeys: [...literalKeys, ...decrypted],
+      sourceFirst: !override,
+    });
+  }
+
+  if (merge) {
+    for (const key of Object.keys(parsed)) {
+      const origin = origins[key]?.at(-1);
+      if (!origin) continue;
+      if (decrypted.includes(key)) origin.decrypted = true;
+      if (parsed[key] !== values[key]) origin.expanded = true;
+    }
+    mergeIntoProcessEnv(parsed, override, origins);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Where each variable comes from, and a diagnostic dump of the config.
+ *
+ * This module provides utilities for:
+ * - Recording the origin of every value merged into `process.env` by
+ *   `loadEnv()`, `loadEnvCascade()` and `mergeIntoProcessEnv()`: the file and
+ *   line, whether it was expanded or decrypted, and the values it replaced
+ * - Asking the active env source where a value comes from: secret files,
+ *   secret providers, test overrides or custom sources
+ * - Printing a redacted table or JSON dump of keys, values, sources and
+ *   overridden values with {@link describeEnv}, safe to log once at boot or
+ *   to serve from a debug endpoint
+ *
+ * @example
+ * loadEnvCascade();
+ * console.log(describeEnv({ schema }));
+ * // KEY           VALUE                          SOURCE                 OVERRIDDEN
+ * // API_URL       https://api.example.com        .env.production:2      .env:4
+ * // DATABASE_URL  postgres://app:****@db/app     .env.local:1 (expanded)
+ * // PORT          3000                           default
+ *
+ * @module provenance
+ */
+
+import { getEnvironment } from './env.js';
+import { assertPublicAccess, isPublicGuardActive, isPublicKey } from './public.js';
+import { getRedactionPolicy, redactValue, type RedactionPolicy } from './redact.js';
+import type { EnvSchema } from './schema.js';
+import { getEnvSource, type EnvSource } from './sources.js';
+
+/**
+ * The kind of place a value comes from.
+ */
+export type EnvOriginType =
+  | 'shell'
+  | 'file'
+  | 'secret-file'
+  | 'secret'
+  | 'default'
+  | 'override'
+  | 'source';
+
+/**
+ * Where a value comes from.
+ */
+export interface EnvOrigin {
+  /** The kind of origin */
+  type: EnvOriginType;
+  /** Name of the source or secret provider, for `source` and `secret` origins */
+  source?: string;
+  /** Path of the file, for `file` and `secret-file` origins */
+  file?: string;
+  /** 1-based line of the assignment, for `file` origins */
+  line?: number;
+  /** Whether `${VAR}` references were expanded in the value */
+  expanded?: boolean;
+  /** Whether the value was decrypted */
+  decrypted?: boolean;
+}
+
+/**
+ * The resolved value of a variable and where it comes from.
+ */
+export interface EnvProvenance {
+  /** The variable name */
+  key: string;
+  /** The value, redacted */
+  value: string;
+  /** Where the value comes from */
+  origin: EnvOrigin;
+  /** Origins of the values it replaced, most recent first */
+  overridden: EnvOrigin[];
+}
+
+/**
+ * Options for {@link getEnvProvenance}.
+ */
+export interface EnvProvenanceOptions extends RedactionPolicy {
+  /** Variables to describe, in addition to the ones selected by default */
+  keys?: string[];
+  /** Also describe the schema variables, reporting unset ones with defaults as `default` */
+  schema?: EnvSchema;
+  /** Describe every variable of the source, including the ones from the shell */
+  all?: boolean;
+  /** Variables to read, defaults to the configured env source */
+  source?: EnvSource;
+}
+
+/**
+ * Options for {@link describeEnv}.
+ */
+export interface DescribeEnvOptions extends EnvProvenanceOptions {
+  /** `table` for people, `json` for log pipelines, defaults to `table` */
+  format?: 'table' | 'json';
+}
+
+interface EnvOriginRecord {
+  value: string;
+  origin: EnvOrigin;
+  overridden: EnvOrigin[];
+}
+
+const records = new Map<string, EnvOriginRecord>();
+
+const processEnv = (): Record<string, string | undefined> =>
+  typeof process === 'undefined' ? {} : process.env;
+
+/**
+ * The record of a key, when it still describes the given value.
+ */
+const recordFor = (key: string, value: string): EnvOriginRecord | undefined => {
+  const record = records.get(key);
+  if (record?.value === value) return record;
+  return processEnv()[key] === value
+    ? { value, origin: { type: 'shell' }, overridden: [] }
+    : undefined;
+};
+
+/**
+ * Record the origin of a value merged into `process.env`. Called by
+ * `mergeIntoProcessEnv()` before writing; custom loaders can call it to be
+ * included in {@link describeEnv}.
+ *
+ * @param key - The variable name.
+ * @param value - The value being merged.
+ * @param origins - Origins of the candidate values, lowest precedence first; the last one is the merged value.
+ * @param applied - Whether the value replaces the current one, false when the current value is kept.
+ */
+export function recordEnvOrigin(
+  key: string,
+  value: string,
+  origins: EnvOrigin[],
+  applied: boolean,
+): void {
+  if (origins.length === 0) return;
+
+  const current = processEnv()[key];
+  const previous = current === undefined ? undefined : recordFor(key, current);
+  const candidates = [...origins].reverse();
+
+  if (!applied) {
+    if (!previous) return;
+    records.set(key, {
+      ...previous,
+      overridden: [...candidates, ...previous.overridden],
+    });
+    return;
+  }
+
+  const [origin, ...replaced] = candidates;
+  records.set(key, {
+    value,
+    origin,
+    overridden: [
+      ...replaced,
+      ...(previous ? [previous.origin, ...previous.overridden] : []),
+    ],
+  });
+}
+
+/**
+ * Forget every recorded origin.
+ */
+export function resetEnvProvenance(): void {
+  records.clear();
+}
+
+const toValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Get the value and origin of variables.
+ *
+ * By default the variables with a recorded origin other than the shell are
+ * described, with the ones named by `keys` and `schema`; set `all` to
+ * describe every variable of the source. Values are redacted with the global
+ * redaction policy merged with the options.
+ *
+ * While the public guard is active, variables of the env source are read like
+ * `env()` and `getAllEnv()` do: server-only variables are left out of the
+ * ones selected by default, and naming one in `keys` or `schema` throws.
+ *
+ * @example
+ * getEnvProvenance({ keys: ['PORT'] });
+ * // [{ key: 'PORT', value: '3000', origin: { type: 'file', file: '.env', line: 3 }, overridden: [] }]
+ *
+ * @param options - Variables to describe, source and redaction rules.
+ * @returns One entry per variable, sorted by key.
+ * @throws {EnvAccessError} If the public guard is active and `keys` or `schema` name a server-only variable of the env source.
+ */
+export function getEnvProvenance(
+  options: EnvProvenanceOptions = {},
+): EnvProvenance[] {
+  const { keys = [], schema = {}, all = false, source = getEnvSource() } = options;
+  const policy: RedactionPolicy = { ...getRedactionPolicy(), ...options };
+  const environment = getEnvironment();
+  const guarded = !options.source && isPublicGuardActive();
+  const visible = (key: string) => !guarded || isPublicKey(key);
+
+  const named = [...keys, ...Object.keys(schema)];
+  if (!options.source) named.forEach((key) => assertPublicAccess(key));
+
+  const selected = new Set([
+    ...(all ? source.keys() : []).filter(visible),
+    ...[...records.keys()].filter(
+      (key) => visible(key) && records.get(key)?.value === source.get(key),
+    ),
+    ...named,
+  ]);
+
+  const entries: EnvProvenance[] = [];
+  for (const key of selected) {
+    const value = source.get(key);
+    if (value === undefined) {
+      const fallback = schema[key]?.defaultFor(environment);
+      if (fallback !== undefined) {
+        entries.push({
+          key,
+          value: redactValue(key, toValue(fallback), policy),
+          origin: { type: 'default' },
+          overridden: [],
+        });
+      }
+      continue;
+    }
+
+    const record = recordFor(key, value);
+    const origin = source.origin?.(key) ??
+      record?.origin ?? { type: 'source', source: source.name };
+    entries.push({
+      key,
+      value: redactValue(key, value, policy),
+      origin,
+      overridden: origin === record?.origin ? record.overridden : [],
+    });
+  }
+
+  return entries.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Format an origin for the table, e.g. `.env.local:3 (expanded)`.
+ */
+const formatOrigin = (origin: EnvOrigin): string => {
+  const place =
+    origin.file !== undefined
+      ? `${origin.file}${origin.line !== undefined ? `:${origin.line}` : ''}`
+      : origin.source !== undefined
+        ? `${origin.type} ${origin.source}`
+        : origin.type;
+  const flags = [
+    ...(origin.expanded ? ['expanded'] : []),
+    ...(origin.decrypted ? ['decrypted'] : []),
+  ];
+  return flags.length > 0 ? `${place} (${flags.join(', ')})` : place;
+};
+
+/**
+ * Describe the resolved variables, their redacted values and where they come from.
+ *
+ * Secrets are redacted with the same rules as `safeStringify()`, so the
+ * output can be logged once at boot or served from a debug endpoint.
+ *
+ * @example
+ * logger.info(describeEnv({ schema }));
+ * app.get('/debug/env', (req, res) => res.type('json').send(describeEnv({ format: 'json' })));
+ *
+ * @param options - Output format, variables to describe, source and redaction rules.
+ * @returns The table, or a JSON array of {@link EnvProvenance} entries.
+ */
+export function describeEnv(options: DescribeEnvOptions = {}): string {
+  const { format = 'table', ...rest } = options;
+  const entries = getEnvProvenance(rest);
+
+  if (format === 'json') return JSON.stringify(entries, null, 2);
+
+  const rows = [
+    ['KEY', 'VALUE', 'SOURCE', 'OVERRIDDEN'],
+    ...entries.map((entry) => [
+      entry.key,
+      entry.value.replace(/\r?\n/g, '\\n'),
+      formatOrigin(entry.origin),
+      entry.overridden.map(formatOrigin).join(', '),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n');
+}
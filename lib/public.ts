@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Public/private partitioning of environment variables.
+ *
+ * Only variables whose names start with a public prefix (`NEXT_PUBLIC_`,
+ * `VITE_`, `PUBLIC_` or custom ones) are meant to reach client bundles.
+ * This module provides utilities for:
+ * - Configuring the public prefixes
+ * - Reading the public subset of the environment with {@link getPublicEnv}
+ * - A guard mode: in the browser, reading a server-only variable through
+ *   `env()`, the typed accessors or `defineEnv()` throws an
+ *   {@link EnvAccessError}, and `getAllEnv()`, `getEnvTree()` and
+ *   `describeEnv()` only see the public subset
+ *
+ * @example
+ * configurePublicEnv({ prefixes: ['APP_PUBLIC_'], guard: true });
+ *
+ * getPublicEnv(); // { APP_PUBLIC_API_URL: 'https://api.example.com' }
+ * env('DATABASE_URL'); // throws EnvAccessError in the browser
+ *
+ * @module public
+ */
+
+import { envSourceToObject } from './sources.js';
+
+/**
+ * Prefixes marking variables as safe to expose to the browser.
+ */
+export const DEFAULT_PUBLIC_PREFIXES: readonly string[] = Object.freeze([
+  'NEXT_PUBLIC_',
+  'VITE_',
+  'PUBLIC_',
+]);
+
+/**
+ * Options for {@link configurePublicEnv}.
+ */
+export interface PublicEnvOptions {
+  /** Prefixes of public variables, defaults to {@link DEFAULT_PUBLIC_PREFIXES} */
+  prefixes?: readonly string[];
+  /** Block reads of non-public variables in the browser, defaults to false */
+  guard?: boolean;
+}
+
+/**
+ * Error thrown when a server-only variable is read in the browser in guard mode.
+ */
+export class EnvAccessError extends Error {
+  /** The variable that was read */
+  readonly key: string;
+
+  constructor(key: string, prefixes: readonly string[]) {
+    super(
+      `Cannot read server-only environment variable "${key}" in the browser. ` +
+        `Only variables starting with ${prefixes.join(', ')} are public.`,
+    );
+    this.name = 'EnvAccessError';
+    this.key = key;
+  }
+}
+
+let config: Required<PublicEnvOptions> = {
+  prefixes: DEFAULT_PUBLIC_PREFIXES,
+  guard: false,
+};
+
+/**
+ * Configure the public prefixes and the guard mode.
+ *
+ * Options that are not given keep their current value.
+ *
+ * @param options - The settings to change.
+ */
+export function configurePublicEnv(options: PublicEnvOptions): void {
+  config = {
+    prefixes: Object.freeze([...(options.prefixes ?? config.prefixes)]),
+    guard: options.guard ?? config.guard,
+  };
+}
+
+/**
+ * Get the current public prefixes and guard mode.
+ */
+export function getPublicEnvConfig(): Readonly<Required<PublicEnvOptions>> {
+  return config;
+}
+
+/**
+ * Check whether a variable is public, based on the configured prefixes.
+ *
+ * @example
+ * isPublicKey('NEXT_PUBLIC_API_URL'); // true
+ * isPublicKey('DATABASE_URL');        // false
+ */
+export function isPublicKey(key: string): boolean {
+  return config.prefixes.some((prefix) => key.startsWith(prefix));
+}
+
+const inBrowser = (): boolean =>
+  typeof window !== 'undefined' && typeof document !== 'undefined';
+
+/**
+ * Check whether the guard is active: guard mode is on and the code runs in
+ * the browser.
+ */
+export function isPublicGuardActive(): boolean {
+  return config.guard && inBrowser();
+}
+
+/**
+ * Throw when a non-public variable is read while the guard is active.
+ *
+ * @param key - The variable being read.
+ * @throws {EnvAccessError} When the guard is active and the key is not public.
+ */
+export function assertPublicAccess(key: string): void {
+  if (isPublicGuardActive() && !isPublicKey(key)) {
+    throw new EnvAccessError(key, config.prefixes);
+  }
+}
+
+/**
+ * Get the public variables only.
+ *
+ * @example
+ * // NEXT_PUBLIC_API_URL=https://api.example.com, DATABASE_URL=postgres://...
+ * getPublicEnv(); // { NEXT_PUBLIC_API_URL: 'https://api.example.com' }
+ *
+ * @param source - Variables to filter, defaults to the configured env source.
+ * @returns A new object holding the public variables.
+ */
+export function getPublicEnv(
+  source: Record<string, string | undefined> = envSourceToObject(),
+): Record<string, string | undefined> {
+  return Object.fromEntries(
+    Object.entries(source).filter(([key]) => isPublicKey(key)),
+  );
+}
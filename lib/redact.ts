@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Redaction of secrets in keys, key paths and values.
+ *
+ * A value is redacted when:
+ * - its key matches the deny-list (case-insensitive), e.g. `API_KEY` or `dbPassword`
+ * - its key path matches a path rule, e.g. `db.connection.password` or `*.token`
+ * - the value itself looks like a secret: a JWT, an AWS access key, a PEM block,
+ *   or a URL with embedded credentials (only the password part is masked)
+ *
+ * Keys or paths on the allow-list are never redacted by key, which helps with
+ * false positives such as `AUTHOR` matching `auth`.
+ *
+ * @example
+ * setRedactionPolicy({ allow: ['AUTHOR'], paths: ['db.*.password'], mask: 'partial' });
+ *
+ * redactValue('OPENAI_API_KEY', 'sk-1234567890abcd'); // 'sk-****abcd'
+ * redactValue('DATABASE_URL', 'postgres://app:hunter2@db:5432/app');
+ * // 'postgres://app:****@db:5432/app'
+ *
+ * @module redact
+ */
+
+/**
+ * A key pattern: strings match as case-insensitive substrings, regular
+ * expressions are tested against the key.
+ */
+export type RedactionPattern = string | RegExp;
+
+/**
+ * Rules deciding what gets redacted.
+ */
+export interface RedactionPolicy {
+  /** Additional key patterns to redact */
+  patterns?: RedactionPattern[];
+  /** Include {@link DEFAULT_SENSITIVE_PATTERNS}, defaults to true */
+  useDefaults?: boolean;
+  /** Keys (patterns) or dotted key paths that are never redacted by key */
+  allow?: RedactionPattern[];
+  /** Dotted key paths to redact; `*` matches any single segment */
+  paths?: string[];
+  /** Detect secrets by looking at values, defaults to true */
+  detectValues?: boolean;
+  /** `full` replaces the value, `partial` keeps a prefix and the last 4 characters */
+  mask?: 'full' | 'partial';
+  /** Replacement used by full masking, defaults to `[REDACTED]` */
+  placeholder?: string;
+}
+
+/**
+ * Key fragments that mark a value as sensitive by default.
+ */
+export const DEFAULT_SENSITIVE_PATTERNS: readonly string[] = Object.freeze([
+  'token',
+  'key',
+  'secret',
+  'password',
+  'passwd',
+  'credential',
+  'auth',
+  'private',
+  'cookie',
+  'session',
+  'dsn',
+]);
+
+const SECRET_VALUE_PATTERNS: readonly RegExp[] = [
+  // JSON Web Token
+  /^eyJ[\w-]+\.eyJ[\w-]+\.[\w-]*$/,
+  // AWS access key id
+  /\b(AKIA|ASIA)[0-9A-Z]{16}\b/,
+  // PEM encoded keys and certificates
+  /-----BEGIN [A-Z0-9 ]+-----/,
+];
+
+// The password runs to the last `@` before the path or query, so an unencoded `@` in it stays masked
+const URL_CREDENTIALS_PATTERN =
+  /^([a-z][a-z0-9+.-]*:\/\/[^/\s:@]*:)([^/?#\s]+)(@)/i;
+
+let activePolicy: RedactionPolicy = {};
+
+/**
+ * Replace the global redaction policy used when no policy is passed explicitly.
+ *
+ * @param policy - The new policy.
+ */
+export function setRedactionPolicy(policy: RedactionPolicy): void {
+  activePolicy = { ...policy };
+}
+
+/**
+ * Get the global redaction policy.
+ */
+export function getRedactionPolicy(): Readonly<RedactionPolicy> {
+  return activePolicy;
+}
+
+const matchesPattern = (key: string, pattern: RedactionPattern): boolean =>
+  typeof pattern === 'string'
+    ? key.toLowerCase().includes(pattern.toLowerCase())
+    : pattern.test(key);
+
+const matchesPath = (path: readonly string[], rule: string): boolean => {
+  const segments = rule.split('.');
+  if (segments.length !== path.length) return false;
+  return segments.every(
+    (segment, i) =>
+      segment === '*' || segment.toLowerCase() === path[i].toLowerCase(),
+  );
+};
+
+const isAllowed = (path: readonly string[], policy: RedactionPolicy): boolean => {
+  const key = path[path.length - 1] ?? '';
+  const joined = path.join('.');
+  return (policy.allow ?? []).some((entry) =>
+    typeof entry === 'string'
+      ? entry.toLowerCase() === key.toLowerCase() ||
+        (entry.includes('.') && matchesPath(path, entry))
+      : entry.test(key) || entry.test(joined),
+  );
+};
+
+/**
+ * Check whether a key names a sensitive value that must be redacted.
+ *
+ * @example
+ * isSensitiveKey('DB_PASSWORD');                          // true
+ * isSensitiveKey('apiKey');                               // true
+ * isSensitiveKey('LOG_LEVEL');                            // false
+ * isSensitiveKey('LOG_LEVEL', { patterns: ['level'] });   // true
+ *
+ * @param key - The property or environment variable name.
+ * @param policy - Redaction rules, defaults to the global policy.
+ * @returns true if the key matches the deny-list and is not allowed.
+ */
+export function isSensitiveKey(
+  key: string,
+  policy: RedactionPolicy = activePolicy,
+): boolean {
+  return isSensitivePath([key], policy);
+}
+
+/**
+ * Check whether a key path names a sensitive value that must be redacted.
+ *
+ * @example
+ * isSensitivePath(['db', 'connection', 'password']); // true
+ * isSensitivePath(['db', 'host'], { paths: ['db.host'] }); // true
+ *
+ * @param path - The keys leading to the value, outermost first.
+ * @param policy - Redaction rules, defaults to the global policy.
+ */
+export function isSensitivePath(
+  path: readonly string[],
+  policy: RedactionPolicy = activePolicy,
+): boolean {
+  if (path.length === 0 || isAllowed(path, policy)) return false;
+
+  const key = path[path.length - 1];
+  const patterns = [
+    ...(policy.useDefaults === false ? [] : DEFAULT_SENSITIVE_PATTERNS),
+    ...(policy.patterns ?? []),
+  ];
+
+  return (
+    patterns.some((pattern) => matchesPattern(key, pattern)) ||
+    (policy.paths ?? []).some((rule) => matchesPath(path, rule))
+  );
+}
+
+/**
+ * Check whether a value looks like a secret regardless of its key.
+ *
+ * Detects JWTs, AWS access keys, PEM blocks and URLs with embedded passwords.
+ */
+export function isSecretValue(value: string): boolean {
+  return (
+    URL_CREDENTIALS_PATTERN.test(value) ||
+    SECRET_VALUE_PATTERNS.some((pattern) => pattern.test(value))
+  );
+}
+
+/**
+ * Mask a secret according to the policy.
+ *
+ * Partial masking keeps a short alphabetic prefix such as `sk-` and the last
+ * four characters; values shorter than 12 characters are fully masked.
+ *
+ * @example
+ * maskValue('sk-1234567890abcd', { mask: 'partial' }); // 'sk-****abcd'
+ * maskValue('hunter2');                                 // '[REDACTED]'
+ */
+export function maskValue(
+  value: unknown,
+  policy: RedactionPolicy = activePolicy,
+): string {
+  const placeholder = policy.placeholder ?? '[REDACTED]';
+  if (policy.mask !== 'partial' || typeof value !== 'string' || value.length < 12) {
+    return placeholder;
+  }
+
+  const prefix = /^[A-Za-z]{1,4}[-_]/.exec(value)?.[0] ?? '';
+  return `${prefix}****${value.slice(-4)}`;
+}
+
+/**
+ * Redact a single value given the key path that leads to it.
+ *
+ * @param path - The keys leading to the value, outermost first.
+ * @param value - The value to check.
+ * @param policy - Redaction rules, defaults to the global policy.
+ * @returns The value, or its redacted replacement.
+ */
+export function redactAtPath(
+  path: readonly string[],
+  value: unknown,
+  policy: RedactionPolicy = activePolicy,
+): unknown {
+  if (isSensitivePath(path, policy)) return maskValue(value, policy);
+  if (typeof value !== 'string' || policy.detectValues === false) return value;
+  if (isAllowed(path, policy)) return value;
+
+  if (URL_CREDENTIALS_PATTERN.test(value)) {
+    return value.replace(URL_CREDENTIALS_PATTERN, '$1****$3');
+  }
+  if (SECRET_VALUE_PATTERNS.some((pattern) => pattern.test(value))) {
+    return maskValue(value, policy);
+  }
+  return value;
+}
+
+/**
+ * Redact an environment variable value.
+ *
+ * @example
+ * redactValue('API_TOKEN', 'abc');                                  // '[REDACTED]'
+ * redactValue('DATABASE_URL', 'postgres://u:p@db/app');             // 'postgres://u:****@db/app'
+ * redactValue('PORT', '3000');                                      // '3000'
+ *
+ * @param key - The variable name.
+ * @param value - The raw value.
+ * @param policy - Redaction rules, defaults to the global policy.
+ */
+export function redactValue(
+  key: string,
+  value: string,
+  policy: RedactionPolicy = activePolicy,
+): string {
+  return redactAtPath([key], value, policy) as string;
+}
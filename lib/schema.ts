@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Declarative, typed environment schema.
+ *
+ * {@link defineEnv} validates the environment once against a schema of
+ * validators and returns a frozen config object whose type is inferred from
+ * the schema, so no casts are needed at the call sites.
+ *
+ * @example
+ * export const config = defineEnv({
+ *   PORT: port().default(3000),
+ *   API_URL: url(),
+ *   LOG_LEVEL: oneOf(['debug', 'info']).default('info'),
+ *   SENTRY_DSN: str().requiredIn('production'),
+ * });
+ *
+ * config.PORT;       // number
+ * config.SENTRY_DSN; // string | undefined
+ *
+ * @module schema
+ */
+
+import { getEnvironment } from './env.js';
+import {
+  EnvErrorReportOptions,
+  EnvIssue,
+  EnvValidationError,
+  redactReceived,
+  rejectionReason,
+  reportValidationError,
+} from './errors.js';
+import { assertPublicAccess } from './public.js';
+import { envSourceToObject, objectEnvSource } from './sources.js';
+import type { EnvPresence, EnvVar, InferEnvVar } from './validators.js';
+
+/**
+ * A map of environment variable names to validators.
+ */
+export type EnvSchema = Record<string, EnvVar<unknown, EnvPresence>>;
+
+/**
+ * The config object type produced by {@link defineEnv} for a schema.
+ */
+export type InferEnv<S extends EnvSchema> = {
+  readonly [K in keyof S]: InferEnvVar<S[K]>;
+};
+
+/**
+ * Options for {@link defineEnv}.
+ */
+export interface DefineEnvOptions extends EnvErrorReportOptions {
+  /** Variables to validate, defaults to the configured env source */
+  source?: Record<string, string | undefined>;
+  /** Environment used for `requiredIn` rules, defaults to {@link getEnvironment} of the source */
+  environment?: string;
+}
+
+/**
+ * Validate the environment against a schema and return a typed, frozen config.
+ *
+ * Every variable is checked before failing, so a single error lists all
+ * problems at once. Empty strings are treated as not set.
+ *
+ * @example
+ * // Print the report and exit with code 1 on failure
+ * const config = defineEnv(schema, { exitOnError: true });
+ *
+ * @param schema - The validators keyed by variable name.
+ * @param options - Validation options.
+ * @returns The parsed values, keyed like the schema.
+ * @throws {EnvValidationError} If any variable is missing or invalid.
+ * @throws {EnvAccessError} If the public guard is active and the schema reads a server-only variable of the env source.
+ */
+export function defineEnv<S extends EnvSchema>(
+  schema: S,
+  options: DefineEnvOptions = {},
+): InferEnv<S> {
+  const source = options.source ?? envSourceToObject();
+  const environment =
+    options.environment ??
+    getEnvironment(options.source ? objectEnvSource(source) : undefined);
+
+  const config: Record<string, unknown> = {};
+  const issues: EnvIssue[] = [];
+
+  for (const [key, validator] of Object.entries(schema)) {
+    if (!options.source) assertPublicAccess(key);
+    const raw = source[key];
+    const { expected, description } = validator.meta;
+
+    if (raw === undefined || raw === '') {
+      if (validator.isRequired(environment)) {
+        issues.push({ key, reason: 'is required', expected, description });
+      }
+      config[key] = validator.defaultFor(environment);
+      continue;
+    }
+
+    const result = validator.validate(raw);
+    if (result.ok) {
+      config[key] = result.value;
+    } else {
+      issues.push({
+        key,
+        reason: rejectionReason(key, raw, result.error, expected),
+        expected,
+        received: redactReceived(key, raw),
+        description,
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    reportValidationError(new EnvValidationError(issues), options);
+  }
+
+  return Object.freeze(config) as InferEnv<S>;
+}
@@ -0,0 +1,273 @@
+/**
+ * @fileoverview File-based secrets and pluggable secret providers.
+ *
+ * This module provides utilities for:
+ * - The `_FILE` convention used by Docker and Kubernetes: with
+ *   `DB_PASSWORD_FILE=/run/secrets/db_password`, reading `DB_PASSWORD` returns
+ *   the trimmed file content
+ * - Async secret backends implementing {@link SecretProvider}, fetched with
+ *   `await resolveSecrets()` and installed as part of the env source
+ * - {@link directorySecretProvider}, a directory of files standing in for a
+ *   vault during local development
+ *
+ * @example
+ * setEnvSource(fileSecretsSource());
+ * env('DB_PASSWORD'); // content of $DB_PASSWORD_FILE
+ *
+ * registerSecretProvider(directorySecretProvider('/run/secrets'));
+ * await resolveSecrets();
+ *
+ * @module secrets
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+import {
+  chainEnvSources,
+  getEnvSource,
+  objectEnvSource,
+  setEnvSource,
+  type EnvSource,
+} from './sources.js';
+
+/**
+ * Suffix of variables pointing to a file holding the value.
+ */
+export const SECRET_FILE_SUFFIX = '_FILE';
+
+/**
+ * Error thrown when a secret cannot be resolved.
+ */
+export class EnvSecretError extends Error {
+  /** The variable being resolved */
+  readonly key?: string;
+
+  constructor(message: string, key?: string) {
+    super(message);
+    this.name = 'EnvSecretError';
+    this.key = key;
+  }
+}
+
+/**
+ * An async secret backend, such as a vault or a cloud secret manager.
+ */
+export interface SecretProvider {
+  /** Name used in error messages */
+  readonly name: string;
+  /** Fetch a secret, `undefined` when the provider does not have it */
+  get(key: string): Promise<string | undefined>;
+  /** List the secrets the provider holds, used when no keys are requested */
+  keys?(): Promise<string[]>;
+}
+
+/**
+ * Options for {@link resolveSecrets}.
+ */
+export interface ResolveSecretsOptions {
+  /** Providers to ask in order, defaults to the registered ones */
+  providers?: SecretProvider[];
+  /** Secrets to resolve, defaults to every secret the providers list */
+  keys?: string[];
+  /** Let secrets win over variables that are already set, defaults to false */
+  override?: boolean;
+  /** Install the secrets as part of the active env source, defaults to true */
+  apply?: boolean;
+}
+
+/**
+ * Read a secret file, trimming surrounding whitespace.
+ */
+const readSecretFile = (key: string, path: string): string => {
+  const filePath = resolve(path);
+  if (!existsSync(filePath)) {
+    throw new EnvSecretError(
+      `${key}${SECRET_FILE_SUFFIX} points to a missing file: ${filePath}`,
+      key,
+    );
+  }
+  return readFileSync(filePath, 'utf8').trim();
+};
+
+/**
+ * Wrap a source so `KEY` is read from the file named by `KEY_FILE`.
+ *
+ * @example
+ * // DB_PASSWORD_FILE=/run/secrets/db_password
+ * setEnvSource(fileSecretsSource());
+ * env('DB_PASSWORD'); // the trimmed content of /run/secrets/db_password
+ *
+ * @param source - The source to wrap, defaults to the configured one.
+ * @returns A source resolving the `_FILE` convention.
+ * @throws {EnvSecretError} On read, when both `KEY` and `KEY_FILE` are set or the file is missing.
+ */
+export function fileSecretsSource(source: EnvSource = getEnvSource()): EnvSource {
+  return {
+    name: `${source.name} (with ${SECRET_FILE_SUFFIX})`,
+    get: (key) => {
+      const path = key.endsWith(SECRET_FILE_SUFFIX)
+        ? undefined
+        : source.get(`${key}${SECRET_FILE_SUFFIX}`);
+      if (!path) return source.get(key);
+
+      if (source.get(key)) {
+        throw new EnvSecretError(
+          `Both ${key} and ${key}${SECRET_FILE_SUFFIX} are set; set only one`,
+          key,
+        );
+      }
+      return readSecretFile(key, path);
+    },
+    keys: () => {
+      const keys = source.keys();
+      const fromFiles = keys
+        .filter((key) => key.endsWith(SECRET_FILE_SUFFIX) && source.get(key))
+        .map((key) => key.slice(0, -SECRET_FILE_SUFFIX.length));
+      return [...new Set([...keys, ...fromFiles])];
+    },
+    origin: (key) => {
+      const path = key.endsWith(SECRET_FILE_SUFFIX)
+        ? undefined
+        : source.get(`${key}${SECRET_FILE_SUFFIX}`);
+      return path
+        ? { type: 'secret-file', file: resolve(path) }
+        : source.origin?.(key);
+    },
+  };
+}
+
+/**
+ * Create a provider reading one file per secret from a directory, as mounted
+ * by Docker and Kubernetes.
+ *
+ * A secret `DB_PASSWORD` is read from `DB_PASSWORD` or `db_password`; file
+ * names are listed as upper-case keys with `-` and `.` replaced by `_`.
+ *
+ * @example
+ * registerSecretProvider(directorySecretProvider('./secrets'));
+ *
+ * @param dir - The directory, defaults to `/run/secrets`.
+ */
+export function directorySecretProvider(dir = '/run/secrets'): SecretProvider {
+  const root = resolve(dir);
+  const toKey = (file: string) => file.toUpperCase().replace(/[-.]/g, '_');
+
+  const files = async (): Promise<string[]> => {
+    try {
+      const entries = await readdir(root, { withFileTypes: true });
+      return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    name: `directory ${root}`,
+    get: async (key) => {
+      const file = (await files()).find((name) => toKey(name) === key);
+      return file === undefined
+        ? undefined
+        : (await readFile(join(root, file), 'utf8')).trim();
+    },
+    keys: async () => (await files()).map(toKey),
+  };
+}
+
+const providers: SecretProvider[] = [];
+
+/**
+ * Register a provider used by {@link resolveSecrets} when no providers are passed.
+ *
+ * @param provider - The provider; earlier registrations are asked first.
+ * @returns A function unregistering the provider.
+ */
+export function registerSecretProvider(provider: SecretProvider): () => void {
+  providers.push(provider);
+  return () => {
+    const index = providers.indexOf(provider);
+    if (index !== -1) providers.splice(index, 1);
+  };
+}
+
+/**
+ * Fetch secrets from the providers and make them readable through `env()`
+ * and the other accessors.
+ *
+ * Providers are asked in order and the first value wins. Variables that are
+ * already set win over secrets unless `override` is set.
+ *
+ * @example
+ * registerSecretProvider(vaultProvider);
+ * await resolveSecrets({ keys: ['DB_PASSWORD', 'API_TOKEN'] });
+ * envString('DB_PASSWORD', { required: true });
+ *
+ * @param options - Resolution options.
+ * @returns The resolved secrets.
+ * @throws {EnvSecretError} When a provider fails.
+ */
+export async function resolveSecrets(
+  options: ResolveSecretsOptions = {},
+): Promise<Record<string, string>> {
+  const {
+    providers: using = [...providers],
+    override = false,
+    apply = true,
+  } = options;
+
+  const call = async <T>(provider: SecretProvider, task: () => Promise<T>) => {
+    try {
+      return await task();
+    } catch (error) {
+      throw new EnvSecretError(
+        `Secret provider "${provider.name}" failed: ${(error as Error).message}`,
+      );
+    }
+  };
+
+  const listKeys = async (): Promise<string[]> => {
+    const lists = await Promise.all(
+      using.map((provider) => {
+        const list = provider.keys?.bind(provider);
+        return list ? call(provider, list) : [];
+      }),
+    );
+    return [...new Set(lists.flat())];
+  };
+
+  const keys = options.keys ?? (await listKeys());
+
+  const secrets: Record<string, string> = {};
+  const origins: Record<string, string> = {};
+  await Promise.all(
+    keys.map(async (key) => {
+      for (const provider of using) {
+        const value = await call(provider, () => provider.get(key));
+        if (value !== undefined) {
+          secrets[key] = value;
+          origins[key] = provider.name;
+          return;
+        }
+      }
+    }),
+  );
+
+  if (apply) {
+    const current = getEnvSource();
+    const secretSource: EnvSource = {
+      ...objectEnvSource(secrets, 'secrets'),
+      origin: (key) =>
+        Object.hasOwn(secrets, key)
+          ? { type: 'secret', source: origins[key] }
+          : undefined,
+    };
+    setEnvSource(
+      override
+        ? chainEnvSources(secretSource, current)
+        : chainEnvSources(current, secretSource),
+    );
+  }
+
+  return secrets;
+}
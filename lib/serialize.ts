@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Conversion of arbitrary runtime values into JSON-safe data.
+ *
+ * {@link toSerializable} never throws. It handles values that break
+ * `JSON.stringify`:
+ * - circular references become `[Circular ~path]`
+ * - `BigInt` becomes a string such as `"42n"`
+ * - `Map` becomes an object, `Set` and typed arrays become arrays
+ * - `Date` becomes an ISO string
+ * - `Error` becomes `{ name, message, ...props, cause }`, following the cause chain
+ * - getters or `toJSON` methods that throw become `[Unserializable: reason]`
+ *
+ * Depth, string length and array length can be limited, and every key path is
+ * passed through the redaction rules of {@link redactAtPath}.
+ *
+ * @module serialize
+ */
+
+import { redactAtPath, type RedactionPolicy } from './redact.js';
+
+/**
+ * Limits applied while serializing.
+ */
+export interface SerializeOptions {
+  /** Nesting depth after which objects are replaced by a summary, defaults to no limit */
+  maxDepth?: number;
+  /** Length after which strings are truncated, defaults to no limit */
+  maxStringLength?: number;
+  /** Number of array items kept before truncating, defaults to no limit */
+  maxArrayLength?: number;
+}
+
+interface WalkState {
+  options: SerializeOptions;
+  policy: RedactionPolicy | false;
+  ancestors: { value: object; path: string[] }[];
+}
+
+const TYPED_ARRAY = Object.getPrototypeOf(Int8Array);
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const formatPath = (path: readonly string[]): string => ['~', ...path].join('.');
+
+const truncateString = (value: string, max?: number): string =>
+  max !== undefined && value.length > max
+    ? `${value.slice(0, max)}… [+${value.length - max} chars]`
+    : value;
+
+const summarize = (value: object): string => {
+  if (Array.isArray(value)) return `[Array(${value.length})]`;
+  const name = value.constructor?.name;
+  return `[${name && name !== 'Object' ? name : 'Object'}]`;
+};
+
+/**
+ * Read own enumerable properties without letting a throwing getter escape.
+ */
+const entriesOf = (value: object): [string, unknown][] =>
+  Object.keys(value).map((key) => {
+    try {
+      return [key, (value as Record<string, unknown>)[key]];
+    } catch (error) {
+      return [key, `[Unserializable: ${describeError(error)}]`];
+    }
+  });
+
+const walk = (
+  value: unknown,
+  path: string[],
+  depth: number,
+  state: WalkState,
+): unknown => {
+  const { options, policy } = state;
+  const redacted = policy === false ? value : redactAtPath(path, value, policy);
+  if (redacted !== value) return redacted;
+
+  switch (typeof value) {
+    case 'string':
+      return truncateString(value, options.maxStringLength);
+    case 'bigint':
+      return `${value}n`;
+    case 'function':
+    case 'symbol':
+    case 'undefined':
+      return undefined;
+    case 'number':
+    case 'boolean':
+      return value;
+  }
+
+  if (value === null || typeof value !== 'object') return value;
+
+  const ancestor = state.ancestors.find((entry) => entry.value === value);
+  if (ancestor) {
+    return `[Circular ${formatPath(ancestor.path)}]`;
+  }
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  }
+
+  if (options.maxDepth !== undefined && depth > options.maxDepth) {
+    return summarize(value);
+  }
+
+  state.ancestors.push({ value, path });
+  try {
+    return walkObject(value, path, depth, state);
+  } catch (error) {
+    return `[Unserializable: ${describeError(error)}]`;
+  } finally {
+    state.ancestors.pop();
+  }
+};
+
+const walkArray = (
+  items: unknown[],
+  path: string[],
+  depth: number,
+  state: WalkState,
+): unknown[] => {
+  const { maxArrayLength } = state.options;
+  const kept =
+    maxArrayLength !== undefined ? items.slice(0, maxArrayLength) : items;
+
+  const result = kept.map((item, index) => {
+    const walked = walk(item, [...path, String(index)], depth + 1, state);
+    return walked === undefined ? null : walked;
+  });
+
+  if (kept.length < items.length) {
+    result.push(`[… ${items.length - kept.length} more items]`);
+  }
+  return result;
+};
+
+const walkEntries = (
+  entries: [string, unknown][],
+  path: string[],
+  depth: number,
+  state: WalkState,
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of entries) {
+    const walked = walk(item, [...path, key], depth + 1, state);
+    if (walked !== undefined) result[key] = walked;
+  }
+  return result;
+};
+
+const walkObject = (
+  value: object,
+  path: string[],
+  depth: number,
+  state: WalkState,
+): unknown => {
+  if (Array.isArray(value)) {
+    return walkArray(value, path, depth, state);
+  }
+
+  if (value instanceof TYPED_ARRAY) {
+    const items = Array.from(value as unknown as ArrayLike<number | bigint>);
+    return walkArray(items, path, depth, state);
+  }
+
+  if (value instanceof Set) {
+    return walkArray([...value], path, depth, state);
+  }
+
+  if (value instanceof Map) {
+    const entries = [...value].map(([key, item]): [string, unknown] => [
+      typeof key === 'string'
+        ? key
+        : (JSON.stringify(walk(key, path, depth + 1, state)) ?? String(key)),
+      item,
+    ]);
+    return walkEntries(entries, path, depth, state);
+  }
+
+  if (value instanceof Error) {
+    const entries: [string, unknown][] = [
+      ['name', value.name],
+      ['message', value.message],
+      ...entriesOf(value).filter(([key]) => key !== 'cause'),
+    ];
+    if ('cause' in value && value.cause !== undefined) {
+      entries.push(['cause', value.cause]);
+    }
+    return walkEntries(entries, path, depth, state);
+  }
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    const json = (value as { toJSON: (key: string) => unknown }).toJSON(
+      path[path.length - 1] ?? '',
+    );
+    if (json !== value) return walk(json, path, depth, state);
+  }
+
+  return walkEntries(entriesOf(value), path, depth, state);
+};
+
+/**
+ * Convert any value into data that `JSON.stringify` can always serialize.
+ *
+ * @example
+ * const config: Record<string, unknown> = { id: 1n, tags: new Set(['a']) };
+ * config.self = config;
+ * toSerializable(config);
+ * // { id: '1n', tags: ['a'], self: '[Circular ~]' }
+ *
+ * @param value - The value to convert.
+ * @param options - Serialization limits.
+ * @param policy - Redaction rules applied to every key path, or `false` to disable redaction.
+ * @returns JSON-safe data.
+ */
+export function toSerializable(
+  value: unknown,
+  options: SerializeOptions = {},
+  policy: RedactionPolicy | false = false,
+): unknown {
+  try {
+    return walk(value, [], 0, { options, policy, ancestors: [] });
+  } catch (error) {
+    return `[Unserializable: ${describeError(error)}]`;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Pluggable sources the environment variables are read from.
+ *
+ * `env()`, `isEnvVarDefined()`, `getAllEnv()`, `validateRequiredEnv()`, the
+ * typed accessors and `defineEnv()` read through the configured
+ * {@link EnvSource}. Built-in sources:
+ * - {@link processEnvSource} - `process.env` (Node.js, Bun, bundler shims)
+ * - {@link denoEnvSource} - `Deno.env`
+ * - {@link bunEnvSource} - `Bun.env`
+ * - {@link importMetaEnvSource} - `import.meta.env` (Vite and similar bundlers)
+ * - {@link objectEnvSource} - a plain object, e.g. edge worker bindings
+ * - {@link chainEnvSources} - several sources, the first one holding a key wins
+ *
+ * By default the source matching the current runtime is detected; without
+ * any runtime environment an empty source is used, so nothing crashes.
+ *
+ * @example
+ * // Vite
+ * setEnvSource(importMetaEnvSource(import.meta.env));
+ *
+ * // Cloudflare-style worker
+ * export default {
+ *   fetch(request, bindings) {
+ *     setEnvSource(chainEnvSources(objectEnvSource(bindings), processEnvSource()));
+ *   },
+ * };
+ *
+ * @module sources
+ */
+
+import type { EnvOrigin } from './provenance.js';
+
+/**
+ * A place environment variables are read from.
+ */
+export interface EnvSource {
+  /** Name used in diagnostics, e.g. `process.env` */
+  readonly name: string;
+  /** Read a variable, `undefined` when it is not set */
+  get(key: string): string | undefined;
+  /** List the names of all variables */
+  keys(): string[];
+  /** Tell where a variable comes from, when the source knows */
+  origin?(key: string): EnvOrigin | undefined;
+}
+
+interface DenoLike {
+  env: { get(key: string): string | undefined; toObject(): Record<string, string> };
+}
+
+interface RuntimeGlobals {
+  process?: { env?: Record<string, string | undefined> };
+  Deno?: DenoLike;
+  Bun?: { env?: Record<string, string | undefined> };
+}
+
+const runtime = globalThis as RuntimeGlobals;
+
+/**
+ * Create a source reading a plain object.
+ *
+ * Non-string values, such as the booleans in `import.meta.env`, are converted
+ * with `String()`; `null` and `undefined` count as not set.
+ *
+ * @example
+ * objectEnvSource({ API_URL: 'https://api.example.com' });
+ *
+ * @param vars - The variables, read live so later changes are visible.
+ * @param name - Name used in diagnostics.
+ */
+export function objectEnvSource(
+  vars: Record<string, unknown>,
+  name = 'object',
+): EnvSource {
+  return {
+    name,
+    get: (key) => {
+      if (!Object.hasOwn(vars, key)) return undefined;
+      const value = vars[key];
+      return value === undefined || value === null ? undefined : String(value);
+    },
+    keys: () => Object.keys(vars).filter((key) => vars[key] != null),
+    origin: (key) =>
+      Object.hasOwn(vars, key) && vars[key] != null
+        ? { type: 'source', source: name }
+        : undefined,
+  };
+}
+
+/**
+ * Create a source reading `process.env`, or nothing when `process` does not exist.
+ */
+export function processEnvSource(): EnvSource {
+  return {
+    name: 'process.env',
+    get: (key) => runtime.process?.env?.[key],
+    keys: () => Object.keys(runtime.process?.env ?? {}),
+  };
+}
+
+/**
+ * Create a source reading `Deno.env`.
+ *
+ * Reading requires the `--allow-env` permission; denied reads count as not set.
+ */
+export function denoEnvSource(): EnvSource {
+  const attempt = <T>(read: (deno: DenoLike) => T, fallback: T): T => {
+    try {
+      return runtime.Deno ? read(runtime.Deno) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  return {
+    name: 'Deno.env',
+    get: (key) => attempt((deno) => deno.env.get(key), undefined),
+    keys: () => attempt((deno) => Object.keys(deno.env.toObject()), []),
+  };
+}
+
+/**
+ * Create a source reading `Bun.env`.
+ */
+export function bunEnvSource(): EnvSource {
+  return {
+    name: 'Bun.env',
+    get: (key) => runtime.Bun?.env?.[key],
+    keys: () => Object.keys(runtime.Bun?.env ?? {}),
+  };
+}
+
+/**
+ * Create a source reading `import.meta.env`.
+ *
+ * The library cannot reach `import.meta` of the application, so pass it in.
+ *
+ * @example
+ * setEnvSource(importMetaEnvSource(import.meta.env));
+ *
+ * @param env - The application's `import.meta.env`.
+ */
+export function importMetaEnvSource(env: Record<string, unknown>): EnvSource {
+  return objectEnvSource(env, 'import.meta.env');
+}
+
+/**
+ * Combine several sources: the first source holding a key wins, and the keys
+ * of all sources are listed.
+ *
+ * @param sources - Sources from highest to lowest precedence.
+ */
+export function chainEnvSources(...sources: EnvSource[]): EnvSource {
+  return {
+    name: sources.map((source) => source.name).join(' > '),
+    get: (key) => {
+      for (const source of sources) {
+        const value = source.get(key);
+        if (value !== undefined) return value;
+      }
+      return undefined;
+    },
+    keys: () => [...new Set(sources.flatMap((source) => source.keys()))],
+    origin: (key) =>
+      sources.find((source) => source.get(key) !== undefined)?.origin?.(key),
+  };
+}
+
+/**
+ * Pick the source for the current runtime: Deno, then Bun, then `process.env`,
+ * then an empty object.
+ */
+export function detectEnvSource(): EnvSource {
+  if (runtime.Deno?.env) return denoEnvSource();
+  if (runtime.Bun?.env) return bunEnvSource();
+  if (runtime.process?.env) return processEnvSource();
+  return objectEnvSource({}, 'empty');
+}
+
+let activeSource: EnvSource | undefined;
+
+/**
+ * Replace the source all accessors read from.
+ *
+ * @param source - The new source, or `undefined` to detect it from the runtime again.
+ */
+export function setEnvSource(source: EnvSource | undefined): void {
+  activeSource = source;
+}
+
+/**
+ * Get the source all accessors read from.
+ */
+export function getEnvSource(): EnvSource {
+  activeSource ??= detectEnvSource();
+  return activeSource;
+}
+
+/**
+ * Read every variable of a source into a new object.
+ *
+ * @param source - The source, defaults to the configured one.
+ */
+export function envSourceToObject(
+  source: EnvSource = getEnvSource(),
+): Record<string, string | undefined> {
+  return Object.fromEntries(source.keys().map((key) => [key, source.get(key)]));
+}
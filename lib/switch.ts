@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Per-environment value selection.
+ *
+ * Replaces `isProdEnv() ? a : isStageEnv() ? b : c` chains with a table keyed by the
+ * `ENV` values. Per-variable defaults are declared in a schema with
+ * `EnvVar.defaultByEnv()`, where an explicitly set variable still wins.
+ *
+ * @example
+ * const ttl = envSwitch({ production: 3600, staging: 600, default: 0 }); // number
+ *
+ * const schema = {
+ *   LOG_LEVEL: oneOf(['debug', 'info', 'warn']).defaultByEnv({
+ *     production: 'warn',
+ *     default: 'debug',
+ *   }),
+ * };
+ *
+ * @module switch
+ */
+
+import { getEnvironment, type Environment } from './env.js';
+
+/**
+ * Values keyed by environment, with an optional `default` used when the
+ * current environment has no entry.
+ */
+export type EnvSwitchCases<T> = { readonly [E in Environment]?: T } & {
+  readonly default?: T;
+};
+
+/**
+ * The value type selected from a cases object.
+ */
+export type EnvSwitchValue<C> = Exclude<C[keyof C], undefined>;
+
+/**
+ * Options for {@link envSwitch}.
+ */
+export interface EnvSwitchOptions {
+  /** Environment to select, defaults to {@link getEnvironment} */
+  environment?: Environment;
+}
+
+/**
+ * Error thrown when no case matches the environment and there is no default.
+ */
+export class EnvSwitchError extends Error {
+  /** The environment that had no matching case, `undefined` when none is set */
+  readonly environment: string | undefined;
+
+  constructor(environment: string | undefined, cases: readonly string[]) {
+    super(
+      (environment === undefined
+        ? 'No environment is set'
+        : `No value for environment "${environment}"`) +
+        ` and no default (cases: ${cases.join(', ') || 'none'})`,
+    );
+    this.name = 'EnvSwitchError';
+    this.environment = environment;
+  }
+}
+
+/**
+ * Pick the case for an environment, falling back to `default`.
+ *
+ * @param cases - Values keyed by environment.
+ * @param environment - The environment to select, `undefined` selects `default`.
+ * @returns The selected value, or `undefined` when nothing matches.
+ */
+export function selectEnvCase<T>(
+  cases: EnvSwitchCases<T>,
+  environment: string | undefined,
+): T | undefined {
+  const byEnvironment = cases as Readonly<Record<string, T | undefined>>;
+  const value =
+    environment !== undefined && Object.hasOwn(cases, environment)
+      ? byEnvironment[environment]
+      : undefined;
+  return value === undefined ? cases.default : value;
+}
+
+/**
+ * Select a value for the current environment.
+ *
+ * @example
+ * const level = envSwitch({
+ *   development: 'debug',
+ *   production: 'warn',
+ *   default: 'info',
+ * });
+ *
+ * @param cases - Values keyed by environment, plus an optional `default`.
+ * @param options - Selection options.
+ * @returns The value for the environment, or the default.
+ * @throws {EnvSwitchError} When no case matches and there is no default.
+ */
+export function envSwitch<C extends EnvSwitchCases<unknown>>(
+  cases: C & Record<Exclude<keyof C, Environment | 'default'>, never>,
+  options: EnvSwitchOptions = {},
+): EnvSwitchValue<C> {
+  const environment = options.environment ?? getEnvironment();
+  const value = selectEnvCase(cases, environment);
+
+  if (value === undefined) {
+    throw new EnvSwitchError(
+      environment,
+      Object.keys(cases).filter((key) => key !== 'default'),
+    );
+  }
+  return value as EnvSwitchValue<C>;
+}
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Test helpers for overriding variables and the environment.
+ *
+ * This module provides utilities for:
+ * - Overriding variables for the duration of a sync or async callback with
+ *   {@link withEnv}, restored even when the callback throws
+ * - Overriding variables until a restore handle is called with {@link mockEnv}
+ * - Switching the environment with {@link setEnvironment} and
+ *   {@link withEnvironment}, updating `getEnvironment()` and the
+ *   `isDevEnv()`/`isProdEnv()`/... checks
+ *
+ * Overrides are applied on top of the active env source, so they are seen by
+ * `env()`, the typed accessors, schemas and every other reader of this
+ * library; `process.env` itself is never modified. Overrides made by
+ * `withEnv` are bound to the async context of the callback, so concurrent
+ * tests do not see each other's values.
+ *
+ * The helpers use `node:async_hooks`, so they ship from the separate
+ * `env-x-utils/testing` entry point rather than the main one.
+ *
+ * @example
+ * import { withEnv, setEnvironment } from 'env-x-utils/testing';
+ *
+ * await withEnv({ API_URL: 'http://localhost:4000', DEBUG: undefined }, async () => {
+ *   await request(app).get('/health');
+ * });
+ *
+ * const staging = setEnvironment('staging');
+ * isStageEnv(); // true
+ * staging.restore();
+ *
+ * @module testing
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { getEnvironmentConfig, type Environment } from './env.js';
+import { getEnvSource, setEnvSource, type EnvSource } from './sources.js';
+
+/**
+ * Variables to override; `undefined` makes a variable unset.
+ */
+export type EnvOverrides = Record<string, string | undefined>;
+
+/**
+ * Handle returned by {@link mockEnv} and {@link setEnvironment}.
+ */
+export interface EnvMock {
+  /** Remove the overrides; calling it again does nothing */
+  restore(): void;
+}
+
+const scopes = new AsyncLocalStorage<EnvOverrides>();
+const mocks: EnvOverrides[] = [];
+let users = 0;
+let base: EnvSource | undefined;
+let layer: EnvSource | undefined;
+
+/**
+ * The overrides visible from the current async context: mocks in the order
+ * they were made, then the innermost `withEnv` scope.
+ */
+const currentOverrides = (): EnvOverrides =>
+  Object.assign({}, ...mocks, scopes.getStore());
+
+/**
+ * Install the override layer on top of the active source, if not already there.
+ */
+const acquire = (): void => {
+  users += 1;
+  const current = getEnvSource();
+  if (current === layer) return;
+
+  base = current;
+  layer = {
+    name: `${current.name} (overridden)`,
+    get: (key) => {
+      const overrides = currentOverrides();
+      return Object.hasOwn(overrides, key) ? overrides[key] : current.get(key);
+    },
+    keys: () => {
+      const overrides = currentOverrides();
+      const keys = new Set([...current.keys(), ...Object.keys(overrides)]);
+      return [...keys].filter(
+        (key) => !Object.hasOwn(overrides, key) || overrides[key] !== undefined,
+      );
+    },
+    origin: (key) =>
+      Object.hasOwn(currentOverrides(), key)
+        ? { type: 'override' }
+        : current.origin?.(key),
+  };
+  setEnvSource(layer);
+};
+
+/**
+ * Remove the override layer once nothing uses it, unless the source was
+ * replaced in the meantime.
+ */
+const release = (): void => {
+  users -= 1;
+  if (users === 0 && layer && getEnvSource() === layer) {
+    setEnvSource(base);
+    layer = undefined;
+    base = undefined;
+  }
+};
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+
+/**
+ * Run a callback with some variables overridden.
+ *
+ * The overrides are visible only from the callback, including code it awaits,
+ * and are removed when it returns, throws or its promise settles. Nested
+ * calls add to the overrides of the enclosing call.
+ *
+ * @example
+ * withEnv({ PORT: '0' }, () => envInt('PORT')); // 0
+ *
+ * await withEnv({ FEATURE_X: 'true' }, async () => {
+ *   await runJob();
+ * });
+ *
+ * @param vars - The variables to override; `undefined` unsets a variable.
+ * @param fn - The callback, sync or async.
+ * @returns The result of the callback.
+ */
+export function withEnv<T>(vars: EnvOverrides, fn: () => T): T {
+  acquire();
+
+  let result: T;
+  try {
+    result = scopes.run({ ...scopes.getStore(), ...vars }, fn);
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  if (isPromiseLike(result)) {
+    return Promise.resolve(result).finally(release) as T;
+  }
+  release();
+  return result;
+}
+
+/**
+ * Override some variables until the returned handle is restored.
+ *
+ * Unlike {@link withEnv}, the overrides are visible from every async context.
+ *
+ * @example
+ * let env: EnvMock;
+ * beforeEach(() => {
+ *   env = mockEnv({ API_URL: 'http://localhost:4000' });
+ * });
+ * afterEach(() => env.restore());
+ *
+ * @param vars - The variables to override; `undefined` unsets a variable.
+ * @returns A handle removing the overrides.
+ */
+export function mockEnv(vars: EnvOverrides): EnvMock {
+  const overrides = { ...vars };
+  acquire();
+  mocks.push(overrides);
+
+  let restored = false;
+  return {
+    restore: () => {
+      if (restored) return;
+      restored = true;
+      mocks.splice(mocks.indexOf(overrides), 1);
+      release();
+    },
+  };
+}
+
+/**
+ * Override every variable the environment is resolved from.
+ */
+const environmentOverrides = (environment: Environment): EnvOverrides =>
+  Object.fromEntries(getEnvironmentConfig().keys.map((key) => [key, environment]));
+
+/**
+ * Switch the environment until the returned handle is restored.
+ *
+ * Every variable the environment is resolved from (`APP_ENV` and `NODE_ENV`
+ * by default) is overridden, so `getEnvironment()`, `envSwitch()`, schemas
+ * and the `isDevEnv()`/`isProdEnv()`/... checks all reflect the new environment.
+ *
+ * @example
+ * const production = setEnvironment('production');
+ * isProdEnv(); // true
+ * production.restore();
+ *
+ * @param environment - The environment to switch to.
+ * @returns A handle switching back.
+ */
+export function setEnvironment(environment: Environment): EnvMock {
+  return mockEnv(environmentOverrides(environment));
+}
+
+/**
+ * Run a callback in another environment, like {@link withEnv}.
+ *
+ * @example
+ * await withEnvironment('staging', async () => {
+ *   expect(loadConfig().apiUrl).toContain('staging');
+ * });
+ *
+ * @param environment - The environment to switch to.
+ * @param fn - The callback, sync or async.
+ * @returns The result of the callback.
+ */
+export function withEnvironment<T>(environment: Environment, fn: () => T): T {
+  return withEnv(environmentOverrides(environment), fn);
+}
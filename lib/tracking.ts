@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Opt-in tracking of the environment variables the code reads.
+ *
+ * This module provides utilities for:
+ * - Recording every key read through `env()`, `isEnvVarDefined()` and the
+ *   typed accessors, with a count and the location of the first read
+ *
+ * Tracking is off by default and costs nothing until enabled. This module
+ * has no dependencies so `env()` can use it in browsers and workers; the
+ * report comparing reads with env files lives in the `usage` module.
+ *
+ * @example
+ * enableEnvTracking();
+ * // ... start the app, run the test suite ...
+ * getEnvAccesses();
+ * // [{ key: 'DATABSE_URL', count: 3, found: false, defaulted: false, firstAccess: '...' }]
+ *
+ * @module tracking
+ */
+
+/**
+ * How a variable was read.
+ */
+export interface EnvAccess {
+  /** The variable name */
+  key: string;
+  /** Number of reads */
+  count: number;
+  /** Whether the variable was set on the latest read */
+  found: boolean;
+  /** Whether a default value was returned on any read */
+  defaulted: boolean;
+  /** Stack location of the first read outside this library, when captured */
+  firstAccess?: string;
+}
+
+/**
+ * Options for {@link enableEnvTracking}.
+ */
+export interface EnvTrackingOptions {
+  /** Capture the location of the first read of each key, defaults to true */
+  stack?: boolean;
+}
+
+/**
+ * Details of a single read, passed to {@link recordEnvAccess}.
+ */
+export interface EnvAccessDetails {
+  /** Whether the variable was set */
+  found: boolean;
+  /** Whether a default value was returned */
+  defaulted?: boolean;
+}
+
+let tracking: Required<EnvTrackingOptions> | undefined;
+const accesses = new Map<string, EnvAccess>();
+
+/**
+ * Start recording reads. Reads recorded before are kept.
+ *
+ * @param options - Tracking options.
+ */
+export function enableEnvTracking(options: EnvTrackingOptions = {}): void {
+  tracking = { stack: options.stack ?? true };
+}
+
+/**
+ * Stop recording reads. Reads recorded so far are kept.
+ */
+export function disableEnvTracking(): void {
+  tracking = undefined;
+}
+
+/**
+ * Check whether reads are being recorded.
+ */
+export function isEnvTrackingEnabled(): boolean {
+  return tracking !== undefined;
+}
+
+/**
+ * Forget every recorded read.
+ */
+export function resetEnvTracking(): void {
+  accesses.clear();
+}
+
+const FRAME_FILE = /\(?((?:file:\/\/)?[^\s()]+):\d+:\d+\)?$/;
+
+const directoryOf = (file: string): string =>
+  file.slice(0, Math.max(file.lastIndexOf('/'), file.lastIndexOf('\\')));
+
+/**
+ * Find the first stack frame outside the directory of this module.
+ */
+const callerLocation = (): string | undefined => {
+  const frames = (new Error().stack ?? '')
+    .split('\n')
+    .slice(1)
+    .map((frame) => frame.trim().replace(/^at /, ''));
+  const own = FRAME_FILE.exec(frames[0] ?? '')?.[1];
+  if (!own) return undefined;
+
+  const libraryDir = directoryOf(own);
+  return frames.find((frame) => {
+    const file = FRAME_FILE.exec(frame)?.[1];
+    return file !== undefined && directoryOf(file) !== libraryDir;
+  });
+};
+
+/**
+ * Record a read of a variable. Does nothing unless tracking is enabled.
+ *
+ * Called by `env()`, `isEnvVarDefined()` and the typed accessors; custom
+ * readers can call it to be included in the report.
+ *
+ * @param key - The variable name.
+ * @param details - Whether the variable was set and a default returned.
+ */
+export function recordEnvAccess(key: string, details: EnvAccessDetails): void {
+  if (!tracking) return;
+
+  const access = accesses.get(key);
+  if (access) {
+    access.count += 1;
+    access.found = details.found;
+    access.defaulted ||= details.defaulted ?? false;
+    return;
+  }
+
+  accesses.set(key, {
+    key,
+    count: 1,
+    found: details.found,
+    defaulted: details.defaulted ?? false,
+    firstAccess: tracking.stack ? callerLocation() : undefined,
+  });
+}
+
+/**
+ * Get the recorded reads, sorted by key.
+ */
+export function getEnvAccesses(): EnvAccess[] {
+  return [...accesses.values()]
+    .map((access) => ({ ...access }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
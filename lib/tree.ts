@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Nested configuration objects from flat environment variables.
+ *
+ * This module provides utilities for:
+ * - Building a nested object from keys such as `APP_DB__HOST` and
+ *   `APP_REDIS__CLUSTER__0__HOST` with {@link getEnvTree}; numeric segments
+ *   become array indexes
+ * - Converting booleans and numbers in leaves, or validating leaves by path
+ * - Flattening a configuration object back into variables with {@link flattenToEnv}
+ *
+ * @example
+ * // APP_DB__HOST=localhost APP_DB__PORT=5432 APP_REDIS__NODES__0__HOST=r1
+ * getEnvTree({ prefix: 'APP_', camelCase: true, coerce: true });
+ * // { db: { host: 'localhost', port: 5432 }, redis: { nodes: [{ host: 'r1' }] } }
+ *
+ * flattenToEnv({ db: { host: 'localhost' } }, { prefix: 'APP_', camelCase: true });
+ * // { APP_DB__HOST: 'localhost' }
+ *
+ * @module tree
+ */
+
+import {
+  EnvValidationError,
+  redactReceived,
+  rejectionReason,
+  type EnvIssue,
+} from './errors.js';
+import { isPublicGuardActive, isPublicKey } from './public.js';
+import { getEnvSource, type EnvSource } from './sources.js';
+import type { EnvPresence, EnvVar } from './validators.js';
+
+/**
+ * A nested configuration object.
+ */
+export type EnvTree = Record<string, unknown>;
+
+/**
+ * Options shared by {@link getEnvTree} and {@link flattenToEnv}.
+ */
+export interface EnvTreeKeyOptions {
+  /** Only keys starting with this prefix are used, and the prefix is stripped */
+  prefix?: string;
+  /** Separator between nesting levels, defaults to `__` */
+  separator?: string;
+  /** Convert `CLUSTER_NAME` segments to `clusterName` and back, defaults to false */
+  camelCase?: boolean;
+}
+
+/**
+ * Options for {@link getEnvTree}.
+ */
+export interface EnvTreeOptions extends EnvTreeKeyOptions {
+  /**
+   * Convert leaves: `true` turns `true`/`false` into booleans and numbers
+   * written exactly as `String()` prints them into numbers, so `01234` and
+   * `1.10` stay strings; a function receives the value and its path.
+   * Defaults to keeping strings.
+   */
+  coerce?: boolean | ((value: string, path: readonly string[]) => unknown);
+  /** Validators for some leaves, keyed by dotted path such as `db.port` */
+  validators?: Record<string, EnvVar<unknown, EnvPresence>>;
+  /** Variables to read, defaults to the configured env source */
+  source?: EnvSource;
+}
+
+/**
+ * Error thrown when variables cannot be arranged in a tree.
+ */
+export class EnvTreeError extends Error {
+  /** The variable that does not fit */
+  readonly key: string;
+
+  constructor(message: string, key: string) {
+    super(message);
+    this.name = 'EnvTreeError';
+    this.key = key;
+  }
+}
+
+const toCamelCase = (segment: string): string =>
+  segment
+    .toLowerCase()
+    .replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+const fromCamelCase = (segment: string): string =>
+  segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+
+const isIndex = (segment: string): boolean => /^\d+$/.test(segment);
+
+const UNSAFE_SEGMENTS = new Set(['', '__proto__', 'constructor', 'prototype']);
+
+/**
+ * Convert a leaf written by {@link flattenToEnv} back to a boolean or number.
+ * Only values that print back to the same text are converted, so nothing is
+ * lost: leading zeros, trailing decimal zeros, hex literals and whitespace
+ * keep the value a string.
+ */
+const coerceLeaf = (value: string): unknown => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  const number = Number(value);
+  return Number.isFinite(number) && String(number) === value ? number : value;
+};
+
+const isContainer = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Build a nested object from flat variables.
+ *
+ * Keys are split on the separator after the prefix is stripped; numeric
+ * segments create arrays. Keys with empty segments or segments such as
+ * `__proto__` are ignored, and empty values are left out. Like `getAllEnv()`,
+ * only public variables of the env source are used while the public guard
+ * is active.
+ *
+ * @example
+ * // DB__HOST=localhost DB__REPLICAS__0=r1 DB__REPLICAS__1=r2
+ * getEnvTree();
+ * // { DB: { HOST: 'localhost', REPLICAS: ['r1', 'r2'] } }
+ *
+ * getEnvTree({ prefix: 'DB__', camelCase: true, validators: { port: port() } });
+ *
+ * @param options - Key format, coercion and source.
+ * @returns The nested object.
+ * @throws {EnvTreeError} When a key is both a value and a parent, e.g. `DB` and `DB__HOST`.
+ * @throws {EnvValidationError} When leaves fail their validators.
+ */
+export function getEnvTree(options: EnvTreeOptions = {}): EnvTree {
+  const {
+    prefix = '',
+    separator = '__',
+    camelCase = false,
+    coerce = false,
+    validators = {},
+    source = getEnvSource(),
+  } = options;
+  const guarded = !options.source && isPublicGuardActive();
+
+  const tree: EnvTree = {};
+  const issues: EnvIssue[] = [];
+
+  for (const key of [...source.keys()].sort()) {
+    if (!key.startsWith(prefix) || (guarded && !isPublicKey(key))) continue;
+    const raw = source.get(key);
+    if (raw === undefined || raw === '') continue;
+
+    const segments = key.slice(prefix.length).split(separator);
+    const path = segments.map((segment) =>
+      camelCase && !isIndex(segment) ? toCamelCase(segment) : segment,
+    );
+    // Checked after conversion, as `CONSTRUCTOR` becomes `constructor`
+    if (path.some((segment) => UNSAFE_SEGMENTS.has(segment))) continue;
+
+    let value: unknown = raw;
+    const pathKey = path.join('.');
+    const validator = Object.hasOwn(validators, pathKey)
+      ? validators[pathKey]
+      : undefined;
+    if (validator) {
+      const result = validator.validate(raw);
+      if (!result.ok) {
+        const { expected } = validator.meta;
+        issues.push({
+          key,
+          reason: rejectionReason(key, raw, result.error, expected),
+          expected,
+          received: redactReceived(key, raw),
+        });
+        continue;
+      }
+      value = result.value;
+    } else if (typeof coerce === 'function') {
+      value = coerce(raw, path);
+    } else if (coerce) {
+      value = coerceLeaf(raw);
+    }
+
+    let node: Record<string, unknown> = tree;
+    path.forEach((segment, index) => {
+      // Inherited members such as `toString` are not part of the tree
+      const current = Object.hasOwn(node, segment) ? node[segment] : undefined;
+      if (index === path.length - 1) {
+        if (isContainer(current)) {
+          throw new EnvTreeError(
+            `${key} is also the parent of other variables`,
+            key,
+          );
+        }
+        node[segment] = value;
+        return;
+      }
+
+      if (current === undefined) {
+        node[segment] = isIndex(path[index + 1]) ? [] : {};
+      } else if (!isContainer(current)) {
+        throw new EnvTreeError(
+          `${key} is nested under ${prefix}${segments.slice(0, index + 1).join(separator)}, which has a value`,
+          key,
+        );
+      }
+      node = node[segment] as Record<string, unknown>;
+    });
+  }
+
+  if (issues.length > 0) throw new EnvValidationError(issues);
+  return tree;
+}
+
+/**
+ * Convert a leaf to the string stored in a variable.
+ */
+const toEnvValue = (value: unknown): string =>
+  value instanceof Date ? value.toISOString() : String(value);
+
+/**
+ * Flatten a configuration object into variables, the reverse of {@link getEnvTree}.
+ *
+ * Arrays use their indexes as segments; `null` and `undefined` leaves are
+ * left out and dates are written as ISO strings.
+ *
+ * @example
+ * flattenToEnv({ db: { host: 'localhost', port: 5432 }, hosts: ['a', 'b'] }, { camelCase: true });
+ * // { DB__HOST: 'localhost', DB__PORT: '5432', HOSTS__0: 'a', HOSTS__1: 'b' }
+ *
+ * @param tree - The configuration object.
+ * @param options - Key format.
+ * @returns The variables.
+ */
+export function flattenToEnv(
+  tree: Record<string, unknown> | readonly unknown[],
+  options: EnvTreeKeyOptions = {},
+): Record<string, string> {
+  const { prefix = '', separator = '__', camelCase = false } = options;
+  const vars: Record<string, string> = {};
+
+  const visit = (value: unknown, path: string[]) => {
+    if (value === null || value === undefined) return;
+    if (isContainer(value) && !(value instanceof Date)) {
+      for (const [segment, child] of Object.entries(value)) {
+        visit(child, [...path, camelCase ? fromCamelCase(segment) : segment]);
+      }
+      return;
+    }
+    vars[`${prefix}${path.join(separator)}`] = toEnvValue(value);
+  };
+
+  visit(tree, []);
+  return vars;
+}
@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Type declarations and JSON Schema documents for env variables.
+ *
+ * This module provides utilities for:
+ * - Generating a `.d.ts` file augmenting `NodeJS.ProcessEnv`, so editors
+ *   autocomplete `process.env.API_URL` and know which variables may be unset
+ * - Generating a JSON Schema document describing the validated variables,
+ *   with their types, allowed values, defaults and descriptions
+ *
+ * Both take a schema or the text of a `.env.example` file, whose comments
+ * become descriptions. Variables the environment is resolved from
+ * (`APP_ENV`, `NODE_ENV`) are typed with the known environment names and aliases.
+ *
+ * @example
+ * writeFileSync('env.d.ts', generateEnvTypes(schema));
+ * writeFileSync('env.schema.json', JSON.stringify(generateEnvJsonSchema(schema), null, 2));
+ *
+ * @module typegen
+ */
+
+import { getEnvironmentConfig, getEnvironmentNames } from './env.js';
+import { parseEnvEntries } from './parser.js';
+import type { EnvSchema } from './schema.js';
+import type { EnvVarMeta } from './validators.js';
+
+/**
+ * Options for {@link generateEnvTypes}.
+ */
+export interface EnvTypesOptions {
+  /** Mark variables as required as in this environment, defaults to required in every environment */
+  environment?: string;
+}
+
+/**
+ * Options for {@link generateEnvJsonSchema}.
+ */
+export interface EnvJsonSchemaOptions extends EnvTypesOptions {
+  /** Title of the document, defaults to `Environment variables` */
+  title?: string;
+}
+
+/**
+ * The subset of JSON Schema used to describe variables.
+ */
+export interface EnvJsonSchemaProperty {
+  /** JSON type of the value, absent for arbitrary JSON */
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  /** String format, such as `uri` or `email` */
+  format?: string;
+  /** Allowed values */
+  enum?: readonly string[];
+  /** Smallest allowed number */
+  minimum?: number;
+  /** Largest allowed number */
+  maximum?: number;
+  /** Value used when the variable is not set */
+  default?: unknown;
+  /** Free-form description of the variable */
+  description?: string;
+}
+
+/**
+ * A JSON Schema document describing the variables.
+ */
+export interface EnvJsonSchema {
+  /** The JSON Schema dialect */
+  $schema: string;
+  /** Title of the document */
+  title: string;
+  /** Always `object` */
+  type: 'object';
+  /** One property per variable */
+  properties: Record<string, EnvJsonSchemaProperty>;
+  /** Variables that must be set */
+  required: string[];
+}
+
+/**
+ * What is known about a variable, from a schema or an example file.
+ */
+interface EnvVarInfo {
+  /** The variable name */
+  key: string;
+  /** Whether the variable must be set */
+  required: boolean;
+  /** Free-form description of the variable */
+  description?: string;
+  /** Validator metadata, absent for example files */
+  meta?: Readonly<EnvVarMeta>;
+}
+
+/**
+ * Collect the comment lines right above each entry of an example file.
+ */
+const textToInfo = (text: string): EnvVarInfo[] => {
+  const lines = text.split(/\r?\n/);
+
+  return parseEnvEntries(text).map((entry) => {
+    const comments: string[] = [];
+    for (let index = entry.line - 2; index >= 0; index -= 1) {
+      const line = lines[index].trim();
+      if (!line.startsWith('#')) break;
+      comments.unshift(line.replace(/^#\s?/, ''));
+    }
+    return {
+      key: entry.key,
+      required: true,
+      description: comments.join('\n') || undefined,
+    };
+  });
+};
+
+const schemaToInfo = (schema: EnvSchema, environment?: string): EnvVarInfo[] =>
+  Object.entries(schema).map(([key, validator]) => {
+    const { meta } = validator;
+    const required =
+      environment === undefined
+        ? meta.requiredIn.length === 0 &&
+          !meta.optional &&
+          meta.default === undefined &&
+          meta.defaultByEnv === undefined
+        : validator.isRequired(environment);
+    return { key, required, description: meta.description, meta };
+  });
+
+const toInfo = (source: string | EnvSchema, environment?: string) =>
+  typeof source === 'string'
+    ? textToInfo(source)
+    : schemaToInfo(source, environment);
+
+/**
+ * Values accepted for a variable, for enumerations and environment variables.
+ */
+const choicesOf = (info: EnvVarInfo): readonly string[] | undefined => {
+  if (info.meta?.choices) return info.meta.choices;
+  if (info.meta && info.meta.type !== 'string') return undefined;
+  if (!getEnvironmentConfig().keys.includes(info.key)) return undefined;
+
+  const aliases = Object.keys(getEnvironmentConfig().aliases);
+  return [...new Set([...getEnvironmentNames(), ...aliases])];
+};
+
+const docComment = (info: EnvVarInfo, indent: string): string[] => {
+  const lines = [
+    ...(info.description?.split('\n') ?? []),
+    ...(info.meta ? [info.meta.expected] : []),
+    ...(info.meta?.default !== undefined
+      ? [`@default ${JSON.stringify(info.meta.default)}`]
+      : []),
+  ];
+  if (lines.length === 0) return [];
+
+  return [
+    `${indent}/**`,
+    ...lines.map((line) =>
+      `${indent} * ${line.replace(/\*\//g, '*\\/')}`.trimEnd(),
+    ),
+    `${indent} */`,
+  ];
+};
+
+/**
+ * Generate a declaration file augmenting `NodeJS.ProcessEnv`.
+ *
+ * Values in `process.env` are always strings, so every variable is typed as
+ * `string` except enumerations and environment variables, which get a union
+ * of their values. Variables that are optional, have a default or are required
+ * only in some environments are marked optional.
+ *
+ * @example
+ * generateEnvTypes({ PORT: port().default(3000), LOG_LEVEL: oneOf(['debug', 'info']) });
+ * // declare global {
+ * //   namespace NodeJS {
+ * //     interface ProcessEnv {
+ * //       PORT?: string;
+ * //       LOG_LEVEL: 'debug' | 'info';
+ * // ...
+ *
+ * @param source - A schema, or the text of an example file.
+ * @param options - Generation options.
+ * @returns The content of the `.d.ts` file.
+ * @throws {EnvParseError} If the example text contains a syntax error.
+ */
+export function generateEnvTypes(
+  source: string | EnvSchema,
+  options: EnvTypesOptions = {},
+): string {
+  const indent = '      ';
+  const members = toInfo(source, options.environment).flatMap((info) => {
+    const choices = choicesOf(info);
+    const type = choices
+      ? choices.map((choice) => `'${choice.replace(/['\\]/g, '\\$&')}'`).join(' | ')
+      : 'string';
+    return [
+      ...docComment(info, indent),
+      `${indent}${info.key}${info.required ? '' : '?'}: ${type};`,
+    ];
+  });
+
+  return [
+    '// Generated by env-x-utils. Do not edit.',
+    '',
+    'declare global {',
+    '  namespace NodeJS {',
+    '    interface ProcessEnv {',
+    ...members,
+    '    }',
+    '  }',
+    '}',
+    '',
+    'export {};',
+    '',
+  ].join('\n');
+}
+
+const FORMATS: Readonly<Record<string, string>> = {
+  url: 'uri',
+  email: 'email',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+};
+
+/**
+ * Describe the parsed value of a validator.
+ */
+const typeOf = (meta: Readonly<EnvVarMeta>): EnvJsonSchemaProperty => {
+  switch (meta.type) {
+    case 'number':
+    case 'duration':
+      return { type: 'number' };
+    case 'integer':
+    case 'bytes':
+      return { type: 'integer' };
+    case 'port':
+      return { type: 'integer', minimum: 1, maximum: 65535 };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'list':
+      return { type: 'array' };
+    case 'json':
+      return {};
+    default:
+      return FORMATS[meta.type]
+        ? { type: 'string', format: FORMATS[meta.type] }
+        : { type: 'string' };
+  }
+};
+
+/**
+ * Generate a JSON Schema document describing the variables.
+ *
+ * With a schema, types describe the validated values: a `port()` is an
+ * integer between 1 and 65535 and defaults keep their type. Variables of an
+ * example file are strings.
+ *
+ * @example
+ * generateEnvJsonSchema({ PORT: port().default(3000) });
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   title: 'Environment variables',
+ * //   type: 'object',
+ * //   properties: { PORT: { type: 'integer', minimum: 1, maximum: 65535, default: 3000 } },
+ * //   required: [],
+ * // }
+ *
+ * @param source - A schema, or the text of an example file.
+ * @param options - Generation options.
+ * @returns The JSON Schema document.
+ * @throws {EnvParseError} If the example text contains a syntax error.
+ */
+export function generateEnvJsonSchema(
+  source: string | EnvSchema,
+  options: EnvJsonSchemaOptions = {},
+): EnvJsonSchema {
+  const infos = toInfo(source, options.environment);
+
+  const properties = Object.fromEntries(
+    infos.map((info) => {
+      const choices = choicesOf(info);
+      const property: EnvJsonSchemaProperty = {
+        ...(info.meta ? typeOf(info.meta) : { type: 'string' }),
+        ...(choices && { enum: choices }),
+        ...(info.meta?.default !== undefined && { default: info.meta.default }),
+        ...(info.description && { description: info.description }),
+      };
+      return [info.key, property];
+    }),
+  );
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: options.title ?? 'Environment variables',
+    type: 'object',
+    properties,
+    required: infos.filter((info) => info.required).map((info) => info.key),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Reports comparing the variables the code reads with the ones that are set.
+ *
+ * This module provides utilities for:
+ * - Comparing the keys recorded by `enableEnvTracking()` with the keys that
+ *   are set, to find unused variables, reads of missing variables (typos such
+ *   as `DATABSE_URL`) and variables that fell back to a default
+ *
+ * @example
+ * enableEnvTracking();
+ * // ... start the app, run the test suite ...
+ * const report = getEnvUsageReport({ files: ['.env.production'] });
+ * // { accessed: [...], unused: ['LEGACY_API_URL'], missing: ['DATABSE_URL'], defaulted: ['PORT'] }
+ *
+ * @module usage
+ */
+
+import { readEnvFile } from './parser.js';
+import { getEnvSource, type EnvSource } from './sources.js';
+import { getEnvAccesses } from './tracking.js';
+
+/**
+ * Options for {@link getEnvUsageReport}.
+ */
+export interface EnvUsageReportOptions {
+  /** Env files listing the expected keys, instead of the active env source */
+  files?: string[];
+  /** Source listing the expected keys, defaults to the configured one */
+  source?: EnvSource;
+  /** Keys left out of the `unused` list, such as `PATH` or `HOME` */
+  ignore?: (string | RegExp)[];
+}
+
+/**
+ * Comparison of the variables that were read with the variables that are set.
+ */
+export interface EnvUsageReport {
+  /** Keys read at least once */
+  accessed: string[];
+  /** Keys that are set but were never read */
+  unused: string[];
+  /** Keys that were read but are not set */
+  missing: string[];
+  /** Keys for which a default value was returned */
+  defaulted: string[];
+}
+
+/**
+ * Compare the recorded reads with the variables that are set.
+ *
+ * @example
+ * getEnvUsageReport({ files: ['.env'] });
+ * getEnvUsageReport({ ignore: ['PATH', 'HOME', /^npm_/] });
+ *
+ * @param options - Where the expected keys come from and which to ignore.
+ * @returns The accessed, unused, missing and defaulted keys, each sorted.
+ * @throws {Error} If an env file does not exist.
+ * @throws {EnvParseError} If an env file contains a syntax error.
+ */
+export function getEnvUsageReport(
+  options: EnvUsageReportOptions = {},
+): EnvUsageReport {
+  const { files, source = getEnvSource(), ignore = [] } = options;
+  const present = new Set(
+    files
+      ? files.flatMap((file) => readEnvFile(file).map((entry) => entry.key))
+      : source.keys(),
+  );
+  const ignored = (key: string) =>
+    ignore.some((rule) =>
+      typeof rule === 'string' ? rule === key : rule.test(key),
+    );
+
+  const recorded = getEnvAccesses();
+  const accessed = new Set(recorded.map((access) => access.key));
+  const sort = (keys: string[]) => keys.sort((a, b) => a.localeCompare(b));
+
+  return {
+    accessed: [...accessed],
+    unused: sort([...present].filter((key) => !accessed.has(key) && !ignored(key))),
+    missing: recorded
+      .filter((access) => (files ? !present.has(access.key) : !access.found))
+      .map((access) => access.key),
+    defaulted: recorded
+      .filter((access) => access.defaulted)
+      .map((access) => access.key),
+  };
+}
@@ -1,3 +1,7 @@
+import { getRedactionPolicy, type RedactionPolicy } from './redact.js';
+import { toSerializable, type SerializeOptions } from './serialize.js';
+import { bool, int, num, url, type EnvVar } from './validators.js';
+
 /**
  * Checks if a value is a boolean or a string representation of a boolean.
  *
@@ -36,77 +40,243 @@ export const isBoolean = (value: unknown): boolean => {
   return false;
 };
 
+/**
+ * Options for {@link safeStringify}.
+ */
+export interface SafeStringifyOptions extends RedactionPolicy, SerializeOptions {
+  /** Indentation passed to `JSON.stringify`, defaults to 2 */
+  indent?: number | string;
+}
+
 /**
  * Safely converts an object to a JSON string while automatically redacting sensitive information.
  *
  * Helper function to safely stringify environment values.
  *
  * @param obj - The value to convert to a JSON string. Can be any JSON-serializable value.
- * @param redactedWord - Optional additional word to trigger redaction. Must be a non-empty string.
+ * @param redactedWord - Optional additional word to trigger redaction, or a redaction policy.
  * @returns A formatted JSON string with sensitive data redacted.
- * @throws {Error} If redactedWord is provided but is not a valid non-empty string.
+ * @throws {Error} If redactedWord is provided but is not a valid non-empty string or options object.
  *
  * @example
  * // Basic usage
  * const data = {
  *   username: "nasr",
- *   PASSWORD: "secret123",
- *   API_KEY: "abc123"
+ *   password: "secret123",
+ *   API_KEY: "abc123",
+ *   LOG_LEVEL: "info"
  * };
  *
  * console.log(safeStringify(data));
  * // Output:
  * // {
  * //   "username": "nasr",
- * //   "PASSWORD": "[REDACTED]",
- * //   "API_KEY": "abc123"
+ * //   "password": "[REDACTED]",
+ * //   "API_KEY": "[REDACTED]",
+ * //   "LOG_LEVEL": "info"
  * // }
  *
  * // With custom redaction word
- * console.log(safeStringify(data, "KEY"));
+ * console.log(safeStringify(data, "LEVEL"));
  * // Output:
  * // {
  * //   "username": "nasr",
- * //   "PASSWORD": "[REDACTED]",
- * //   "API_KEY": "[REDACTED]"
+ * //   "password": "[REDACTED]",
+ * //   "API_KEY": "[REDACTED]",
+ * //   "LOG_LEVEL": "[REDACTED]"
  * // }
  *
+ * // With a redaction policy
+ * safeStringify(config, {
+ *   allow: ['AUTHOR'],
+ *   paths: ['db.connection.password'],
+ *   patterns: [/^X_/],
+ *   mask: 'partial', // "sk-****abcd"
+ * });
+ *
+ * // Runtime objects and output limits
+ * const state = { id: 1n, seen: new Set(['a']), error: new Error('boom') };
+ * state.self = state;
+ * safeStringify(state, { maxDepth: 3, maxStringLength: 200, maxArrayLength: 50, indent: 0 });
+ * // {"id":"1n","seen":["a"],"error":{"name":"Error","message":"boom"},"self":"[Circular ~]"}
+ *
  * @remarks
- * - Uses JSON.stringify with a replacer function to process the object
- * - Always redacts properties containing 'SECRET' or 'PASSWORD' (case-sensitive)
+ * - Converts the value with {@link toSerializable} before calling JSON.stringify
+ * - Redacts keys matching {@link DEFAULT_SENSITIVE_PATTERNS} (case-insensitive)
+ *   and the global policy set with {@link setRedactionPolicy}
  * - Optionally redacts properties containing the specified redactedWord
- * - The output is formatted with 2-space indentation for readability
- * - Safe to use with circular references (will throw TypeError like standard JSON.stringify)
+ * - Detects secrets in values: JWTs, AWS access keys, PEM blocks and URL credentials
+ * - The output is formatted with 2-space indentation by default
+ * - Always returns a string: `undefined`, functions and symbols become `null`,
+ *   as they do inside arrays
+ * - Never throws while serializing: circular references become `[Circular ~path]`,
+ *   and BigInt, Map, Set, Date, Error (with its cause chain) and typed arrays are supported
  */
-export function safeStringify(obj: unknown, redactedWord?: string): string {
+export function safeStringify(
+  obj: unknown,
+  redactedWord?: string | SafeStringifyOptions,
+): string {
   // Validate redactedWord if provided
   if (
     redactedWord !== undefined &&
-    (typeof redactedWord !== 'string' || redactedWord.trim() === '')
+    (redactedWord === null ||
+      (typeof redactedWord !== 'string' && typeof redactedWord !== 'object') ||
+      (typeof redactedWord === 'string' && redactedWord.trim() === ''))
   ) {
     throw new Error('redactedWord must be a non-empty string');
   }
 
-  return JSON.stringify(
-    obj,
-    (key, value) => {
-      if (
-        key.includes('SECRET') ||
-        key.includes('PASSWORD') ||
-        (redactedWord && key.includes(redactedWord))
-      ) {
-        return '[REDACTED]';
-      }
-      return value;
-    },
-    2,
-  );
+  const base = getRedactionPolicy();
+  const policy: RedactionPolicy =
+    typeof redactedWord === 'string'
+      ? { ...base, patterns: [...(base.patterns ?? []), redactedWord] }
+      : { ...base, ...redactedWord };
+
+  const {
+    indent = 2,
+    maxDepth,
+    maxStringLength,
+    maxArrayLength,
+  } = typeof redactedWord === 'object'
+    ? redactedWord
+    : ({} as SafeStringifyOptions);
+
+  try {
+    const data = toSerializable(
+      obj,
+      { maxDepth, maxStringLength, maxArrayLength },
+      policy,
+    );
+    // JSON.stringify returns undefined for undefined, functions and symbols
+    return JSON.stringify(data, null, indent) ?? 'null';
+  } catch (error) {
+    return JSON.stringify(`[Unserializable: ${(error as Error)?.message}]`);
+  }
+}
+
+/**
+ * Type items of a list or values of a map are converted to, with the
+ * validator of the same kind: `num()`, `int()`, `bool()` or `url()`.
+ * URLs are checked but kept as strings.
+ */
+export type ListItemType = 'string' | 'number' | 'integer' | 'boolean' | 'url';
+
+/**
+ * Options for {@link safeArray}.
+ */
+export interface SafeArrayOptions {
+  /** Item separator, defaults to `,`; a whitespace character splits on any run of whitespace */
+  delimiter?: string;
+  /** Drop repeated items, keeping the first, defaults to false */
+  unique?: boolean;
+  /** Convert every item, defaults to `string` */
+  type?: ListItemType;
+}
+
+/**
+ * Options for {@link safeMap}.
+ */
+export interface SafeMapOptions {
+  /** Separator between pairs, defaults to `,`; a whitespace character splits on any run of whitespace */
+  delimiter?: string;
+  /** Separator between a key and its value, defaults to `=` */
+  separator?: string;
+  /** Convert every value, defaults to `string` */
+  type?: ListItemType;
 }
 
+/**
+ * Split text on a delimiter, honouring quoted items.
+ *
+ * A single or double quote at the start of an item, or right after `quoteAfter`,
+ * opens a quoted section in which the delimiter is literal and `\` escapes
+ * the quote and itself. Outside quotes, `\` escapes the delimiter. Unquoted
+ * items are trimmed and dropped when empty.
+ */
+const splitList = (
+  text: string,
+  delimiter: string,
+  quoteAfter?: string,
+): string[] => {
+  const whitespace = delimiter.trim() === '';
+  const atDelimiter = (index: number) =>
+    whitespace ? /\s/.test(text[index]) : text.startsWith(delimiter, index);
+
+  const items: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  let quoted = false;
+
+  const push = () => {
+    const item = quoted ? current : current.trim();
+    if (quoted || item !== '') items.push(item);
+    current = '';
+    quoted = false;
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    const next = text[index + 1];
+
+    if (quote) {
+      if (char === '\\' && (next === quote || next === '\\')) {
+        current += next;
+        index += 1;
+      } else if (char === quote) {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    const tokenStart =
+      current.trim() === '' ||
+      (quoteAfter !== undefined && current.trimEnd().endsWith(quoteAfter));
+    if ((char === '"' || char === "'") && tokenStart) {
+      current = current.trim();
+      quote = char;
+      quoted = true;
+    } else if (atDelimiter(index)) {
+      push();
+      if (!whitespace) index += delimiter.length - 1;
+    } else if (
+      char === '\\' &&
+      !whitespace &&
+      text.startsWith(delimiter, index + 1)
+    ) {
+      current += delimiter;
+      index += delimiter.length;
+    } else if (!(quoted && /\s/.test(char))) {
+      current += char;
+    }
+  }
+  push();
+
+  return items;
+};
+
+const ITEM_VALIDATORS: Record<
+  Exclude<ListItemType, 'string'>,
+  () => EnvVar<unknown>
+> = {
+  number: num,
+  integer: int,
+  boolean: bool,
+  url,
+};
+
+/**
+ * Convert a list item or map value with the validator of its type.
+ */
+const convertItem = (item: string, type: ListItemType): unknown =>
+  type === 'string' ? item : ITEM_VALIDATORS[type]().parse(item);
+
 /**
  * Converts any input value into an array safely, handling various edge cases.
  *
  * @param args - The value to convert to an array. Can be of any type (null, undefined, array, object, or primitive).
+ * @param options - How strings are split and converted.
  * @returns An array containing the input value(s)
  *
  * @description
@@ -114,7 +284,8 @@ export function safeStringify(obj: unknown, redactedWord?: string): string {
  * - null/undefined → returns empty array
  * - existing array → returns the original array
  * - object → returns single-element array containing the object
- * - primitive values → returns single-element array containing the value
+ * - strings → split on the delimiter; items may be quoted
+ * - other primitive values → returns single-element array containing the value
  *
  * @example
  * // Handling null/undefined
@@ -142,9 +313,18 @@ export function safeStringify(obj: unknown, redactedWord?: string): string {
  * safeArray('apple,banana, orange'); // ['apple', 'banana', 'orange']
  * safeArray('mohamed@email.com, nasr@email.com'); // ['mohamed@email.com', 'nasr@email.com']
  *
- * @throws {never} This function never throws - it handles all error cases internally
+ * @example
+ * // Quotes, delimiters, duplicates and types
+ * safeArray('"Doe, John", Smith'); // ['Doe, John', 'Smith']
+ * safeArray('a;b;a', { delimiter: ';', unique: true }); // ['a', 'b']
+ * safeArray('80 443', { delimiter: ' ', type: 'number' }); // [80, 443]
+ *
+ * @throws {Error} When `type` is set and an item cannot be converted; never throws otherwise
  */
-export function safeArray(args: unknown): unknown[] {
+export function safeArray(
+  args: unknown,
+  options: SafeArrayOptions = {},
+): unknown[] {
   // Handle null/undefined cases
   if (args === undefined || args === null) {
     return [];
@@ -155,29 +335,11 @@ export function safeArray(args: unknown): unknown[] {
     return args;
   }
 
-  // Handle string inputs
+  // Split strings, honouring quotes, then convert and deduplicate the items
   if (typeof args === 'string') {
-    // Trim the string first
-    const trimmedStr = args.trim();
-
-    // Return empty array for empty strings
-    if (trimmedStr === '') {
-      return [];
-    }
-
-    // Convert comma-separated strings to arrays
-    if (trimmedStr.includes(',')) {
-      const items = trimmedStr
-        .split(',')
-        .map((item) => item.trim())
-        .filter((item) => item !== ''); // Remove empty items
-
-      // If all items were empty, return empty array
-      return items.length > 0 ? items : [];
-    }
-
-    // Single non-empty string
-    return [trimmedStr];
+    const { delimiter = ',', unique = false, type = 'string' } = options;
+    const items = splitList(args, delimiter).map((item) => convertItem(item, type));
+    return unique ? [...new Set(items)] : items;
   }
 
   // Handle object inputs
@@ -194,9 +356,50 @@ export function safeArray(args: unknown): unknown[] {
   return [args];
 }
 
+/**
+ * Parse key-value pairs such as `a=1,b=2` into an object.
+ *
+ * Pairs are split like {@link safeArray} items, so values may be quoted to
+ * contain the delimiter: `Accept="text/html, application/json"`. Keys are
+ * trimmed, a pair without separator has an empty value and later pairs win.
+ *
+ * @example
+ * safeMap('a=1, b=2');                                  // { a: '1', b: '2' }
+ * safeMap('X-Trace=on;X-Env="eu, us"', { delimiter: ';' }); // { 'X-Trace': 'on', 'X-Env': 'eu, us' }
+ * safeMap('api:3000 web:8080', { delimiter: ' ', separator: ':', type: 'number' });
+ * // { api: 3000, web: 8080 }
+ *
+ * @param args - The text to parse; objects are returned as is and other values give `{}`.
+ * @param options - How pairs are split and values converted.
+ * @returns The pairs as an object.
+ * @throws {Error} When `type` is set and a value cannot be converted; never throws otherwise
+ */
+export function safeMap(
+  args: unknown,
+  options: SafeMapOptions = {},
+): Record<string, unknown> {
+  if (typeof args === 'object' && args !== null && !Array.isArray(args)) {
+    return args as Record<string, unknown>;
+  }
+  if (typeof args !== 'string') return {};
+
+  const { delimiter = ',', separator = '=', type = 'string' } = options;
+  const entries = splitList(args, delimiter, separator).flatMap((pair) => {
+    const index = pair.indexOf(separator);
+    const key = (index === -1 ? pair : pair.slice(0, index)).trim();
+    const value = index === -1 ? '' : pair.slice(index + separator.length).trim();
+    return key === '' ? [] : [[key, convertItem(value, type)] as const];
+  });
+
+  return Object.fromEntries(entries);
+}
+
 /**
  * Check if the memory usage is above a certain threshold.
  * This uses the `performance.memory` API, which is available only in certain browsers (e.g., Chrome).
+ *
+ * @deprecated Use `getMemoryReport()` or `startMemoryMonitor()`, which also work
+ * on Node.js, take configurable thresholds and return a structured report.
  */
 export const checkMemoryUsage = () => {
   if (typeof window !== 'undefined' && window.performance) {
@@ -0,0 +1,628 @@
+/**
+ * @fileoverview Typed validators for environment variable values.
+ *
+ * Each validator turns the raw string from the environment into a typed value
+ * and carries the metadata needed by {@link defineEnv}: whether the variable is
+ * required, its default, a description and the environments that require it.
+ *
+ * Validators are immutable; every modifier returns a new validator.
+ *
+ * @example
+ * const schema = {
+ *   PORT: port().default(3000),
+ *   API_URL: url().describe('Base URL of the public API'),
+ *   LOG_LEVEL: oneOf(['debug', 'info']).default('info'),
+ *   SENTRY_DSN: str().requiredIn('production'),
+ * };
+ *
+ * Custom validators are created with {@link makeValidator}.
+ *
+ * @module validators
+ */
+
+import { selectEnvCase, type EnvSwitchCases } from './switch.js';
+import { safeArray } from './utils.js';
+
+/**
+ * Converts a raw string into a typed value, throwing an `Error` with a
+ * human-readable reason when the input is invalid.
+ */
+export type EnvParser<T> = (raw: string) => T;
+
+/**
+ * Whether a variable must be set, may be omitted, or falls back to a default.
+ */
+export type EnvPresence = 'required' | 'optional' | 'defaulted';
+
+/**
+ * Descriptive metadata of a validator.
+ */
+export interface EnvVarMeta<T = unknown> {
+  /** Short name of the value type, e.g. `port` or `url` */
+  type: string;
+  /** Human-readable description of the accepted format */
+  expected: string;
+  /** Allowed values, for enumerations */
+  choices?: readonly string[];
+  /** Free-form description of the variable */
+  description?: string;
+  /** Value used when the variable is not set */
+  default?: T;
+  /** Values used when the variable is not set, keyed by environment */
+  defaultByEnv?: EnvSwitchCases<T>;
+  /** Whether the variable may be omitted */
+  optional: boolean;
+  /** Environments in which the variable is required; empty means always */
+  requiredIn: readonly string[];
+}
+
+/**
+ * Outcome of validating a single raw value.
+ */
+export type EnvValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/**
+ * A validator for a single environment variable.
+ *
+ * @typeParam T - The parsed value type.
+ * @typeParam P - Whether the variable is required, optional or defaulted.
+ */
+export class EnvVar<T, P extends EnvPresence = 'required'> {
+  /** The function converting raw strings into values */
+  readonly parse: EnvParser<T>;
+  /** The validator metadata */
+  readonly meta: Readonly<EnvVarMeta<T>>;
+
+  constructor(parse: EnvParser<T>, meta: EnvVarMeta<T>) {
+    this.parse = parse;
+    this.meta = Object.freeze({ ...meta });
+  }
+
+  /**
+   * Use a fallback value when the variable is not set.
+   */
+  default(value: T): EnvVar<T, 'defaulted'> {
+    return new EnvVar<T, 'defaulted'>(this.parse, { ...this.meta, default: value });
+  }
+
+  /**
+   * Use a fallback value that depends on the environment when the variable is
+   * not set. An entry for the current environment wins over `default`, which
+   * wins over a plain {@link EnvVar.default} value.
+   *
+   * @example
+   * oneOf(['debug', 'info', 'warn']).defaultByEnv({ production: 'warn', default: 'debug' });
+   */
+  defaultByEnv<C extends EnvSwitchCases<T>>(
+    cases: C,
+  ): EnvVar<T, C extends { default: T } ? 'defaulted' : P> {
+    return new EnvVar(this.parse, { ...this.meta, defaultByEnv: cases });
+  }
+
+  /**
+   * Get the fallback value used in an environment when the variable is not set.
+   */
+  defaultFor(environment?: string): T | undefined {
+    const { defaultByEnv } = this.meta;
+    const value = defaultByEnv && selectEnvCase(defaultByEnv, environment);
+    return value === undefined ? this.meta.default : value;
+  }
+
+  /**
+   * Allow the variable to be omitted, in which case its value is `undefined`.
+   */
+  optional(): EnvVar<T, P extends 'defaulted' ? 'defaulted' : 'optional'> {
+    return new EnvVar(this.parse, { ...this.meta, optional: true });
+  }
+
+  /**
+   * Attach a description, used in error reports and generated documentation.
+   */
+  describe(description: string): EnvVar<T, P> {
+    return new EnvVar<T, P>(this.parse, { ...this.meta, description });
+  }
+
+  /**
+   * Require the variable only in the given environments; elsewhere it is optional.
+   *
+   * @example
+   * str().requiredIn('production', 'staging');
+   */
+  requiredIn(
+    ...environments: string[]
+  ): EnvVar<T, P extends 'defaulted' ? 'defaulted' : 'optional'> {
+    return new EnvVar(this.parse, {
+      ...this.meta,
+      optional: false,
+      requiredIn: environments,
+    });
+  }
+
+  /**
+   * Check whether the variable must be set in an environment.
+   */
+  isRequired(environment?: string): boolean {
+    const { requiredIn } = this.meta;
+    if (requiredIn.length > 0) {
+      return environment !== undefined && requiredIn.includes(environment);
+    }
+    return !this.meta.optional && this.defaultFor(environment) === undefined;
+  }
+
+  /**
+   * Validate a raw value without throwing.
+   */
+  validate(raw: string): EnvValidationResult<T> {
+    try {
+      return { ok: true, value: this.parse(raw) };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+/**
+ * The value type produced by a validator, including `undefined` for optional ones.
+ */
+export type InferEnvVar<V> =
+  V extends EnvVar<infer T, infer P>
+    ? P extends 'optional'
+      ? T | undefined
+      : T
+    : never;
+
+/**
+ * Create a validator from a parse function.
+ *
+ * This is also the extension point for custom validators.
+ *
+ * @example
+ * const hexColor = () =>
+ *   makeValidator('hex-color', 'a color such as #ff0000', (raw) => {
+ *     if (!/^#[0-9a-f]{6}$/i.test(raw)) throw new Error(`"${raw}" is not a hex color`);
+ *     return raw.toLowerCase();
+ *   });
+ *
+ * @param type - Short name of the value type.
+ * @param expected - Human-readable description of the accepted format.
+ * @param parse - Converts the raw string, throwing an `Error` when it is invalid.
+ */
+export function makeValidator<T>(
+  type: string,
+  expected: string,
+  parse: EnvParser<T>,
+): EnvVar<T> {
+  return new EnvVar<T>(parse, { type, expected, optional: false, requiredIn: [] });
+}
+
+/**
+ * Any string.
+ */
+export const str = (): EnvVar<string> =>
+  makeValidator('string', 'a string', (raw) => raw);
+
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * A finite decimal number. Hexadecimal, binary and octal literals are rejected.
+ */
+export const num = (): EnvVar<number> =>
+  makeValidator('number', 'a number', (raw) => {
+    const value = Number(raw);
+    if (!DECIMAL_PATTERN.test(raw.trim()) || !Number.isFinite(value)) {
+      throw new Error(`"${raw}" is not a number`);
+    }
+    return value;
+  });
+
+/**
+ * A boolean written as `true`/`false`, `1`/`0`, `yes`/`no` or `on`/`off`.
+ */
+export const bool = (): EnvVar<boolean> =>
+  makeValidator('boolean', 'true or false', (raw) => {
+    const value = raw.trim().toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(value)) return true;
+    if (['false', '0', 'no', 'off'].includes(value)) return false;
+    throw new Error(`"${raw}" is not a boolean`);
+  });
+
+/**
+ * A TCP/UDP port between 1 and 65535.
+ */
+export const port = (): EnvVar<number> =>
+  makeValidator('port', 'a port number between 1 and 65535', (raw) => {
+    const value = Number(raw);
+    if (!/^\d+$/.test(raw.trim()) || value < 1 || value > 65535) {
+      throw new Error(`"${raw}" is not a valid port`);
+    }
+    return value;
+  });
+
+/**
+ * Options for {@link url}.
+ */
+export interface UrlOptions {
+  /** Allowed protocols without the trailing colon, e.g. `['https']` */
+  protocols?: readonly string[];
+}
+
+/**
+ * An absolute URL, optionally restricted to a set of protocols.
+ *
+ * @example
+ * url({ protocols: ['https'] });
+ * url({ protocols: ['postgres', 'postgresql'] });
+ */
+export const url = (options: UrlOptions = {}): EnvVar<string> => {
+  const { protocols } = options;
+  const expected = protocols
+    ? `an absolute URL using ${protocols.join(', ')}`
+    : 'an absolute URL';
+
+  return makeValidator('url', expected, (raw) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(raw);
+    } catch {
+      throw new Error(`"${raw}" is not a valid URL`);
+    }
+
+    const protocol = parsed.protocol.slice(0, -1);
+    if (protocols && !protocols.includes(protocol)) {
+      throw new Error(
+        `protocol "${protocol}" is not one of: ${protocols.join(', ')}`,
+      );
+    }
+    return raw;
+  });
+};
+
+const IPV4_PATTERN =
+  /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const HOSTNAME_PATTERN =
+  /^(?=.{1,253}$)[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check whether a string is an IPv4 address in dotted decimal notation.
+ */
+export const isIPv4 = (value: string): boolean => IPV4_PATTERN.test(value);
+
+/**
+ * Check whether a string is an IPv6 address, including `::` compression and
+ * an embedded IPv4 tail such as `::ffff:192.0.2.1`.
+ */
+export const isIPv6 = (value: string): boolean => {
+  const [address, zone, ...rest] = value.split('%');
+  if (rest.length > 0 || zone === '') return false;
+
+  const halves = address.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.map((half) => (half === '' ? [] : half.split(':')));
+  const all = groups.flat();
+
+  // An IPv4 tail counts as two groups and may only appear at the end
+  let size = all.length;
+  const last = all[all.length - 1];
+  if (last !== undefined && last.includes('.')) {
+    if (!isIPv4(last)) return false;
+    all.pop();
+    size += 1;
+  }
+
+  if (!all.every((group) => /^[0-9A-Fa-f]{1,4}$/.test(group))) return false;
+  return halves.length === 2 ? size < 8 : size === 8;
+};
+
+/**
+ * A hostname (RFC 1123) or an IP address.
+ */
+export const host = (): EnvVar<string> =>
+  makeValidator('host', 'a hostname or IP address', (raw) => {
+    const unbracketed = raw.replace(/^\[(.*)\]$/, '$1');
+    if (!HOSTNAME_PATTERN.test(raw) && !isIPv4(raw) && !isIPv6(unbracketed)) {
+      throw new Error(`"${raw}" is not a valid host`);
+    }
+    return raw;
+  });
+
+/**
+ * An email address.
+ */
+export const email = (): EnvVar<string> =>
+  makeValidator('email', 'an email address', (raw) => {
+    if (!EMAIL_PATTERN.test(raw)) {
+      throw new Error(`"${raw}" is not a valid email address`);
+    }
+    return raw;
+  });
+
+/**
+ * An IPv4 address.
+ */
+export const ipv4 = (): EnvVar<string> =>
+  makeValidator('ipv4', 'an IPv4 address', (raw) => {
+    if (!isIPv4(raw)) throw new Error(`"${raw}" is not a valid IPv4 address`);
+    return raw;
+  });
+
+/**
+ * An IPv6 address.
+ */
+export const ipv6 = (): EnvVar<string> =>
+  makeValidator('ipv6', 'an IPv6 address', (raw) => {
+    if (!isIPv6(raw)) throw new Error(`"${raw}" is not a valid IPv6 address`);
+    return raw;
+  });
+
+/**
+ * A string matching a regular expression.
+ *
+ * The `g` and `y` flags are ignored, so results do not depend on earlier
+ * matches through `lastIndex`.
+ *
+ * @example
+ * matches(/^[a-z]{2}-[A-Z]{2}$/, 'a locale such as en-US');
+ */
+export const matches = (
+  pattern: RegExp,
+  expected = `a value matching ${pattern}`,
+): EnvVar<string> => {
+  const regex = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+  return makeValidator<string>('regex', expected, (raw) => {
+    if (!regex.test(raw)) throw new Error(`"${raw}" does not match ${pattern}`);
+    return raw;
+  });
+};
+
+/**
+ * Options for {@link int}.
+ */
+export interface IntOptions {
+  /** Smallest accepted value (inclusive) */
+  min?: number;
+  /** Largest accepted value (inclusive) */
+  max?: number;
+}
+
+/**
+ * An integer, optionally within an inclusive range.
+ *
+ * @example
+ * int({ min: 1, max: 32 });
+ */
+export const int = (options: IntOptions = {}): EnvVar<number> => {
+  const { min, max } = options;
+  const range = [
+    min !== undefined ? `>= ${min}` : '',
+    max !== undefined ? `<= ${max}` : '',
+  ].filter(Boolean);
+  const expected = range.length
+    ? `an integer ${range.join(' and ')}`
+    : 'an integer';
+
+  return makeValidator('integer', expected, (raw) => {
+    const value = Number(raw);
+    if (!/^[+-]?\d+$/.test(raw.trim()) || !Number.isSafeInteger(value)) {
+      throw new Error(`"${raw}" is not an integer`);
+    }
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      throw new Error(`${value} is out of range`);
+    }
+    return value;
+  });
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Convert a duration string to milliseconds.
+ *
+ * Accepts a plain number of milliseconds, a number with a unit (`ms`, `s`, `m`,
+ * `h`, `d`, `w`) or several such parts (`1h30m`).
+ *
+ * @example
+ * parseDuration('30s');   // 30000
+ * parseDuration('1h30m'); // 5400000
+ * parseDuration('250');   // 250
+ *
+ * @returns The duration in milliseconds, or `undefined` if the input is invalid.
+ */
+export const parseDuration = (value: string): number | undefined => {
+  const input = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(input)) return Number(input);
+  if (!/^(\d+(\.\d+)?\s*(ms|s|m|h|d|w)\s*)+$/.test(input)) return undefined;
+
+  let total = 0;
+  for (const [, amount, , unit] of input.matchAll(
+    /(\d+(\.\d+)?)\s*(ms|s|m|h|d|w)/g,
+  )) {
+    total += Number(amount) * DURATION_UNITS[unit];
+  }
+  return total;
+};
+
+/**
+ * A duration such as `30s`, `5m` or `1h`, converted to milliseconds.
+ */
+export const duration = (): EnvVar<number> =>
+  makeValidator('duration', 'a duration such as 500ms, 30s, 5m or 1h', (raw) => {
+    const value = parseDuration(raw);
+    if (value === undefined) throw new Error(`"${raw}" is not a valid duration`);
+    return value;
+  });
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+};
+
+/**
+ * Convert a byte size string to a number of bytes.
+ *
+ * Units are case-insensitive and use multiples of 1024 (`KB` and `KiB` are
+ * equivalent). A plain number is a number of bytes.
+ *
+ * @example
+ * parseBytes('10MB');  // 10485760
+ * parseBytes('1.5kb'); // 1536
+ *
+ * @returns The size in bytes, or `undefined` if the input is invalid.
+ */
+export const parseBytes = (value: string): number | undefined => {
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/.exec(value.trim().toLowerCase());
+  if (!match) return undefined;
+
+  const [, amount, unit] = match;
+  const multiplier = unit === '' ? 1 : BYTE_UNITS[unit];
+  return multiplier === undefined
+    ? undefined
+    : Math.floor(Number(amount) * multiplier);
+};
+
+/**
+ * A byte size such as `512KB` or `10MB`, converted to bytes.
+ */
+export const bytes = (): EnvVar<number> =>
+  makeValidator('bytes', 'a byte size such as 512KB or 10MB', (raw) => {
+    const value = parseBytes(raw);
+    if (value === undefined) throw new Error(`"${raw}" is not a valid byte size`);
+    return value;
+  });
+
+/**
+ * JSON text, optionally checked against an expected structure.
+ *
+ * @example
+ * json<{ origins: string[] }>(
+ *   (value): value is { origins: string[] } =>
+ *     typeof value === 'object' &&
+ *     value !== null &&
+ *     'origins' in value &&
+ *     Array.isArray(value.origins),
+ * );
+ *
+ * @param check - Type guard that the parsed value must satisfy.
+ * @param expected - Description of the expected structure.
+ */
+export const json = <T = unknown>(
+  check?: (value: unknown) => value is T,
+  expected = 'valid JSON',
+): EnvVar<T> =>
+  makeValidator<T>('json', expected, (raw) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`invalid JSON: ${(error as Error).message}`);
+    }
+    if (check && !check(value)) {
+      throw new Error('JSON does not match the expected structure');
+    }
+    return value as T;
+  });
+
+/**
+ * Options for {@link list}.
+ */
+export interface ListOptions {
+  /** Item separator, defaults to `,`; see {@link safeArray} */
+  delimiter?: string;
+  /** Drop repeated items, keeping the first, defaults to false */
+  unique?: boolean;
+  /** Minimum number of items */
+  min?: number;
+  /** Maximum number of items */
+  max?: number;
+}
+
+/**
+ * A delimited list, comma-separated by default, whose items are each validated.
+ *
+ * Splitting follows {@link safeArray}: items are trimmed, may be quoted, and
+ * empty items are dropped.
+ *
+ * @example
+ * list(url());          // 'https://a.dev, https://b.dev' -> ['https://a.dev', 'https://b.dev']
+ * list(port(), { min: 1 });
+ *
+ * @param item - Validator applied to every item, defaults to {@link str}.
+ * @param options - Size constraints.
+ */
+export function list(item?: undefined, options?: ListOptions): EnvVar<string[]>;
+export function list<T>(
+  item: EnvVar<T, EnvPresence>,
+  options?: ListOptions,
+): EnvVar<T[]>;
+export function list<T>(
+  item?: EnvVar<T, EnvPresence>,
+  options: ListOptions = {},
+): EnvVar<(T | string)[]> {
+  const validator: EnvVar<T | string, EnvPresence> = item ?? str();
+  const { delimiter = ',', unique, min, max } = options;
+  const kind =
+    delimiter === ','
+      ? 'a comma-separated list'
+      : `a list separated by ${JSON.stringify(delimiter)}`;
+  const expected =
+    validator.meta.type === 'string'
+      ? kind
+      : `${kind} of ${validator.meta.expected}`;
+
+  return makeValidator<(T | string)[]>('list', expected, (raw) => {
+    const items = safeArray(raw, { delimiter, unique }) as string[];
+
+    if (min !== undefined && items.length < min) {
+      throw new Error(`expected at least ${min} item(s), got ${items.length}`);
+    }
+    if (max !== undefined && items.length > max) {
+      throw new Error(`expected at most ${max} item(s), got ${items.length}`);
+    }
+
+    return items.map((value, index) => {
+      const result = validator.validate(value);
+      if (!result.ok) throw new Error(`item ${index}: ${result.error}`);
+      return result.value;
+    });
+  });
+}
+
+/**
+ * One of a fixed set of strings.
+ *
+ * @example
+ * oneOf(['debug', 'info', 'warn', 'error'] as const);
+ */
+export const oneOf = <const V extends string>(choices: readonly V[]): EnvVar<V> => {
+  const validator = makeValidator<V>(
+    'enum',
+    `one of: ${choices.join(', ')}`,
+    (raw) => {
+      if (!(choices as readonly string[]).includes(raw)) {
+        throw new Error(`"${raw}" is not one of: ${choices.join(', ')}`);
+      }
+      return raw as V;
+    },
+  );
+  return new EnvVar<V>(validator.parse, { ...validator.meta, choices });
+};
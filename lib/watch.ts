@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Watching env files and reloading them on change.
+ *
+ * {@link watchEnv} loads the files, installs them as the active env source and
+ * watches them with `fs.watch`. On change it debounces, re-parses and, when a
+ * schema is given, re-validates. A successful reload:
+ * - swaps the active env source in one step, so readers never see a mix of
+ *   old and new values
+ * - emits a diff of added, changed and removed keys, with secrets redacted
+ * - notifies listeners subscribed to the changed keys, with the real values
+ *
+ * A reload that fails to parse or validate keeps the last good configuration
+ * and reports the error instead.
+ *
+ * @example
+ * const watcher = watchEnv(['.env', '.env.local'], (diff) => {
+ *   console.log('env changed:', diff.changes);
+ * }, { schema });
+ *
+ * watcher.subscribeKey('LOG_LEVEL', (change) => logger.setLevel(change.value));
+ *
+ * @module watch
+ */
+
+import { existsSync, watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+
+import { decryptEnvValues, DEFAULT_KEY_FILE } from './crypto.js';
+import { EnvValidationError } from './errors.js';
+import { expandEnv } from './expand.js';
+import { readEnvFile } from './parser.js';
+import { redactValue } from './redact.js';
+import { defineEnv, type EnvSchema } from './schema.js';
+import {
+  chainEnvSources,
+  envSourceToObject,
+  getEnvSource,
+  objectEnvSource,
+  setEnvSource,
+  type EnvSource,
+} from './sources.js';
+
+/**
+ * A single changed key. Values are redacted in diffs and real for
+ * subscribers of a key.
+ */
+export interface EnvChange {
+  /** The variable name */
+  key: string;
+  /** How the key changed */
+  type: 'added' | 'changed' | 'removed';
+  /** The value before the change, absent for added keys */
+  previous?: string;
+  /** The value after the change, absent for removed keys */
+  value?: string;
+}
+
+/**
+ * The changes applied by a reload.
+ */
+export interface EnvDiff {
+  /** Keys that were not set before */
+  added: string[];
+  /** Keys whose value changed */
+  changed: string[];
+  /** Keys that are no longer set */
+  removed: string[];
+  /** Details for every key, in the order above */
+  changes: EnvChange[];
+}
+
+/**
+ * Options for {@link watchEnv}.
+ */
+export interface WatchEnvOptions {
+  /** Delay in milliseconds to wait for further changes before reloading, defaults to 100 */
+  debounce?: number;
+  /** Schema the reloaded environment must satisfy */
+  schema?: EnvSchema;
+  /** Environment used for the schema's `requiredIn` rules */
+  environment?: string;
+  /** Expand `${VAR}` references in the files */
+  expand?: boolean;
+  /** File encoding, defaults to `utf8` */
+  encoding?: BufferEncoding;
+  /** Let the files win over the previous env source, defaults to false */
+  override?: boolean;
+  /** Called when a reload fails or a listener throws; defaults to printing the error */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A running env file watcher.
+ */
+export interface EnvWatcher {
+  /** The variables from the last good load of the files */
+  readonly values: Readonly<Record<string, string>>;
+  /** Subscribe to every diff; returns a function removing the listener */
+  subscribe(listener: (diff: EnvDiff) => void): () => void;
+  /** Subscribe to changes of one key, with real values; returns a function removing the listener */
+  subscribeKey(key: string, listener: (change: EnvChange) => void): () => void;
+  /** Reload the files now; returns false when the reload failed */
+  reload(): boolean;
+  /** Stop watching and restore the env source that was active before */
+  close(): void;
+}
+
+/**
+ * Compute the redacted changes between two sets of variables.
+ *
+ * @param previous - The variables before the change.
+ * @param next - The variables after the change.
+ */
+export function diffEnv(
+  previous: Readonly<Record<string, string | undefined>>,
+  next: Readonly<Record<string, string | undefined>>,
+): EnvDiff {
+  const diff: EnvDiff = { added: [], changed: [], removed: [], changes: [] };
+  const redact = (key: string, value: string | undefined) =>
+    value === undefined ? undefined : redactValue(key, value);
+
+  for (const [key, value] of Object.entries(next)) {
+    if (value === undefined) continue;
+    if (previous[key] === undefined) {
+      diff.added.push(key);
+    } else if (previous[key] !== value) {
+      diff.changed.push(key);
+    }
+  }
+  for (const [key, value] of Object.entries(previous)) {
+    if (value !== undefined && next[key] === undefined) diff.removed.push(key);
+  }
+
+  const change = (type: EnvChange['type']) => (key: string) => {
+    const entry: EnvChange = { key, type };
+    const previousValue = redact(key, previous[key]);
+    const value = redact(key, next[key]);
+    if (type !== 'added') entry.previous = previousValue;
+    if (type !== 'removed') entry.value = value;
+    return entry;
+  };
+
+  diff.changes = [
+    ...diff.added.map(change('added')),
+    ...diff.changed.map(change('changed')),
+    ...diff.removed.map(change('removed')),
+  ];
+  return diff;
+}
+
+const reportReloadError = (error: Error): void => {
+  console.error(
+    error instanceof EnvValidationError
+      ? `env-x: keeping the previous configuration\n${error.format()}`
+      : `env-x: keeping the previous configuration: ${error.message}`,
+  );
+};
+
+/**
+ * Load env files, install them as the active env source and reload them when
+ * they change.
+ *
+ * @param files - Env file paths, lowest precedence first; missing files are skipped.
+ * @param callback - Called with the diff of every successful reload that changed something.
+ * @param options - Watch options.
+ * @returns The watcher.
+ * @throws When the initial load fails to parse or validate.
+ */
+export function watchEnv(
+  files: string | string[],
+  callback?: (diff: EnvDiff) => void,
+  options: WatchEnvOptions = {},
+): EnvWatcher {
+  const paths = (Array.isArray(files) ? files : [files]).map((file) =>
+    resolve(file),
+  );
+  const { debounce = 100, onError = reportReloadError } = options;
+  const base = getEnvSource();
+  const listeners = new Set<(diff: EnvDiff) => void>();
+  const keyListeners = new Map<string, Set<(change: EnvChange) => void>>();
+
+  let values: Readonly<Record<string, string>> = {};
+  let installed: EnvSource = base;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const compose = (vars: Record<string, string>): EnvSource => {
+    const fileSource = objectEnvSource(vars, 'watched files');
+    return options.override
+      ? chainEnvSources(fileSource, base)
+      : chainEnvSources(base, fileSource);
+  };
+
+  /**
+   * Read and validate the files without applying anything.
+   */
+  const load = (): { vars: Record<string, string>; source: EnvSource } => {
+    let vars: Record<string, string> = {};
+    const literalKeys = new Set<string>();
+    // Optional files such as `.env.local` may not exist, or be removed later
+    for (const path of paths.filter((file) => existsSync(file))) {
+      const parsed: Record<string, string> = {};
+      for (const entry of readEnvFile(path, options.encoding)) {
+        parsed[entry.key] = entry.value;
+        if (entry.quote === 'single') {
+          literalKeys.add(entry.key);
+        } else {
+          literalKeys.delete(entry.key);
+        }
+      }
+
+      // Encrypted values are decrypted first and never expanded
+      const { values, decrypted } = decryptEnvValues(parsed, {
+        keyFile: join(dirname(path), DEFAULT_KEY_FILE),
+      });
+      decrypted.forEach((key) => literalKeys.add(key));
+      Object.assign(vars, values);
+    }
+
+    // Expand across all files at once, against the source from before the
+    // watcher so a reload never resolves references to its own old values
+    if (options.expand) {
+      vars = expandEnv(vars, {
+        source: envSourceToObject(base),
+        literalKeys,
+        sourceFirst: !options.override,
+      });
+    }
+
+    const source = compose(Object.freeze(vars) as Record<string, string>);
+    if (options.schema) {
+      defineEnv(options.schema, {
+        source: envSourceToObject(source),
+        environment: options.environment,
+      });
+    }
+    return { vars, source };
+  };
+
+  const apply = (next: { vars: Record<string, string>; source: EnvSource }) => {
+    const previous = envSourceToObject(installed);
+    values = next.vars;
+    installed = next.source;
+    setEnvSource(installed);
+    return { previous, current: envSourceToObject(installed) };
+  };
+
+  // Notifications run from a timer, so a throwing listener is reported
+  // instead of crashing the process or skipping the other listeners
+  const call = <T>(listener: (arg: T) => void, arg: T) => {
+    try {
+      listener(arg);
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  const notify = ({ previous, current }: ReturnType<typeof apply>) => {
+    const diff = diffEnv(previous, current);
+    if (diff.changes.length === 0) return;
+    if (callback) call(callback, diff);
+    listeners.forEach((listener) => call(listener, diff));
+
+    // Subscribers of a key act on its value, so they get it unredacted
+    for (const { key, type } of diff.changes) {
+      const change: EnvChange = { key, type };
+      if (type !== 'added') change.previous = previous[key];
+      if (type !== 'removed') change.value = current[key];
+      keyListeners.get(key)?.forEach((listener) => call(listener, change));
+    }
+  };
+
+  const reload = (): boolean => {
+    let next: ReturnType<typeof load>;
+    try {
+      next = load();
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+    notify(apply(next));
+    return true;
+  };
+
+  apply(load());
+
+  const names = new Map<string, Set<string>>();
+  for (const path of paths) {
+    const dir = dirname(path);
+    names.set(dir, (names.get(dir) ?? new Set()).add(basename(path)));
+  }
+
+  // Watch directories rather than files, so editors that save by replacing
+  // the file do not break the watcher and missing files are picked up once created
+  const watchers: FSWatcher[] = [...names]
+    .filter(([dir]) => existsSync(dir))
+    .map(([dir, watched]) =>
+      watch(dir, (_event, filename) => {
+        if (filename && !watched.has(filename.toString())) return;
+        clearTimeout(timer);
+        timer = setTimeout(reload, debounce);
+      }).on('error', (error) =>
+        onError(new Error(`Cannot watch ${dir}: ${error.message}`)),
+      ),
+    );
+
+  return {
+    get values() {
+      return values;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    subscribeKey(key, listener) {
+      const set = keyListeners.get(key) ?? new Set();
+      keyListeners.set(key, set.add(listener));
+      return () => set.delete(listener);
+    },
+    reload,
+    close() {
+      clearTimeout(timer);
+      watchers.forEach((watcher) => watcher.close());
+      if (getEnvSource() === installed) {
+        setEnvSource(base);
+      }
+    },
+  };
+}
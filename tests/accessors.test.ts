@@ -0,0 +1,161 @@
+import {
+  envArray,
+  envBool,
+  envEnum,
+  envInt,
+  envJson,
+  envMap,
+  envNumber,
+  envString,
+  envUrl,
+} from '../lib/accessors';
+import { EnvValidationError } from '../lib/errors';
+
+describe('accessors', () => {
+  afterEach(() => {
+    delete process.env.ACC_VALUE;
+    delete process.env.ACC_SECRET;
+  });
+
+  const set = (value: string) => {
+    process.env.ACC_VALUE = value;
+  };
+
+  describe('shared options', () => {
+    it('should return undefined, the default or throw when not set', () => {
+      expect(envString('ACC_VALUE')).toBeUndefined();
+      expect(envString('ACC_VALUE', { default: 'x' })).toBe('x');
+      expect(() => envString('ACC_VALUE', { required: true })).toThrow(
+        '✖ ACC_VALUE: is required',
+      );
+
+      set('');
+      expect(envInt('ACC_VALUE', { default: 1 })).toBe(1);
+    });
+
+    it('should throw instead of falling back to the default on bad input', () => {
+      set('abc');
+      expect(() => envNumber('ACC_VALUE', { default: 1 })).toThrow(
+        EnvValidationError,
+      );
+      expect(() => envNumber('ACC_VALUE')).toThrow(
+        '✖ ACC_VALUE: "abc" is not a number',
+      );
+    });
+
+    it('should reject surrounding whitespace in strict mode', () => {
+      set(' 42 ');
+      expect(envInt('ACC_VALUE')).toBe(42);
+      expect(() => envInt('ACC_VALUE', { strict: true })).toThrow(
+        'has leading or trailing whitespace',
+      );
+    });
+
+    it('should redact sensitive values in errors', () => {
+      process.env.ACC_SECRET = 'hunter2';
+      expect(() => envInt('ACC_SECRET')).toThrow('"[REDACTED]" is not an integer');
+
+      process.env.ACC_SECRET = 'a';
+      expect(() => envUrl('ACC_SECRET')).toThrow(
+        'ACC_SECRET: "[REDACTED]" is not an absolute URL',
+      );
+    });
+  });
+
+  it('should read strings verbatim', () => {
+    set('01234');
+    const value: string | undefined = envString('ACC_VALUE');
+    expect(value).toBe('01234');
+  });
+
+  it('should read decimal numbers only', () => {
+    set('1.10');
+    const value: number = envNumber('ACC_VALUE', { default: 0 });
+    expect(value).toBe(1.1);
+
+    for (const raw of ['0x1F', ' ', 'Infinity', '1e']) {
+      set(raw);
+      expect(() => envNumber('ACC_VALUE')).toThrow(EnvValidationError);
+    }
+
+    set('007');
+    expect(envNumber('ACC_VALUE')).toBe(7);
+    expect(() => envNumber('ACC_VALUE', { strict: true })).toThrow(
+      'is not a number',
+    );
+  });
+
+  it('should read integers', () => {
+    set('-12');
+    expect(envInt('ACC_VALUE')).toBe(-12);
+    set('1.5');
+    expect(() => envInt('ACC_VALUE')).toThrow('"1.5" is not an integer');
+  });
+
+  it('should read booleans', () => {
+    set('YES');
+    expect(envBool('ACC_VALUE')).toBe(true);
+    set('off');
+    expect(envBool('ACC_VALUE')).toBe(false);
+    expect(() => envBool('ACC_VALUE', { strict: true })).toThrow(
+      '"off" is not a boolean',
+    );
+    set('maybe');
+    expect(() => envBool('ACC_VALUE')).toThrow(EnvValidationError);
+  });
+
+  it('should read JSON with an optional structure check', () => {
+    const isList = (value: unknown): value is string[] => Array.isArray(value);
+
+    set('["a","b"]');
+    const value: string[] = envJson('ACC_VALUE', { check: isList, required: true });
+    expect(value).toEqual(['a', 'b']);
+
+    set('{"a":1}');
+    expect(() => envJson('ACC_VALUE', { check: isList })).toThrow(
+      'JSON does not match the expected structure',
+    );
+  });
+
+  it('should read comma-separated arrays', () => {
+    set('a, b,,c');
+    expect(envArray('ACC_VALUE')).toEqual(['a', 'b', 'c']);
+
+    set('b|"a|c"|b');
+    expect(envArray('ACC_VALUE', { delimiter: '|', unique: true })).toEqual([
+      'b',
+      'a|c',
+    ]);
+  });
+
+  it('should read key-value maps', () => {
+    set('X-Team=core, Accept="text/html, application/json"');
+    const headers: Record<string, string> = envMap('ACC_VALUE', { required: true });
+    expect(headers).toEqual({
+      'X-Team': 'core',
+      Accept: 'text/html, application/json',
+    });
+    expect(envMap('ACC_MISSING', { default: {} })).toEqual({});
+  });
+
+  it('should read enums', () => {
+    set('warn');
+    const level: 'info' | 'warn' = envEnum('ACC_VALUE', ['info', 'warn'], {
+      default: 'info',
+    });
+    expect(level).toBe('warn');
+
+    set('trace');
+    expect(() => envEnum('ACC_VALUE', ['info', 'warn'])).toThrow(
+      '"trace" is not one of: info, warn',
+    );
+  });
+
+  it('should read URLs', () => {
+    set('https://api.example.com/v1');
+    expect(envUrl('ACC_VALUE', { required: true }).host).toBe('api.example.com');
+    expect(() => envUrl('ACC_VALUE', { protocols: ['http'] })).toThrow(
+      'protocol "https" is not one of: http',
+    );
+  });
+});
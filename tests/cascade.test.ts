@@ -0,0 +1,131 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { getEnvCascadeFiles, loadEnvCascade } from '../lib/cascade';
+
+describe('cascade/getEnvCascadeFiles', () => {
+  it('should list files from lowest to highest precedence', () => {
+    expect(getEnvCascadeFiles('production')).toEqual([
+      '.env',
+      '.env.production',
+      '.env.local',
+      '.env.production.local',
+    ]);
+  });
+
+  it('should skip .local files in test', () => {
+    expect(getEnvCascadeFiles('test')).toEqual(['.env', '.env.test']);
+  });
+
+  it('should only list the shared files without an environment', () => {
+    expect(getEnvCascadeFiles(undefined)).toEqual(['.env', '.env.local']);
+  });
+});
+
+describe('cascade/loadEnvCascade', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) =>
+    writeFileSync(join(dir, name), content);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    write('.env', 'A=base\nB=base\nC=base\nD=base');
+    write('.env.staging', 'B=staging\nC=staging\nD=staging');
+    write('.env.local', 'C=local\nD=local');
+    write('.env.staging.local', 'D=staging-local');
+    write('.env.test', 'B=test');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.CASCADE_VALUE;
+    delete process.env.CASCADE_URL;
+  });
+
+  it('should layer files by precedence', () => {
+    const result = loadEnvCascade({ dir, environment: 'staging', merge: false });
+
+    expect(result.environment).toBe('staging');
+    expect(result.parsed).toEqual({
+      A: 'base',
+      B: 'staging',
+      C: 'local',
+      D: 'staging-local',
+    });
+  });
+
+  it('should report which files were found and applied', () => {
+    write('.env.local', '');
+    const result = loadEnvCascade({ dir, environment: 'staging', merge: false });
+
+    expect(result.files.map((file) => [file.path, file.found, file.keys])).toEqual([
+      [join(dir, '.env'), true, ['A']],
+      [join(dir, '.env.staging'), true, ['B', 'C']],
+      [join(dir, '.env.local'), true, []],
+      [join(dir, '.env.staging.local'), true, ['D']],
+    ]);
+    expect(result.applied).toEqual([
+      join(dir, '.env'),
+      join(dir, '.env.staging'),
+      join(dir, '.env.staging.local'),
+    ]);
+  });
+
+  it('should skip missing files and .local files in test', () => {
+    const result = loadEnvCascade({ dir, environment: 'test', merge: false });
+
+    expect(result.parsed).toEqual({ A: 'base', B: 'test', C: 'base', D: 'base' });
+    expect(result.files.map((file) => file.path)).toEqual([
+      join(dir, '.env'),
+      join(dir, '.env.test'),
+    ]);
+
+    const production = loadEnvCascade({
+      dir,
+      environment: 'production',
+      merge: false,
+    });
+    expect(production.files[1].found).toBe(false);
+  });
+
+  it('should default to NODE_ENV', () => {
+    expect(loadEnvCascade({ dir, merge: false }).environment).toBe('test');
+  });
+
+  it('should expand references across files', () => {
+    write('.env', 'HOST=base');
+    write('.env.staging', 'URL=http://${HOST}');
+    write('.env.staging.local', 'HOST=local');
+
+    const result = loadEnvCascade({
+      dir,
+      environment: 'staging',
+      expand: true,
+      merge: false,
+    });
+    expect(result.parsed.URL).toBe('http://local');
+  });
+
+  it('should expand references with shell values that are kept', () => {
+    write('.env', 'CASCADE_VALUE=base');
+    write('.env.staging', 'CASCADE_URL=http://${CASCADE_VALUE}');
+    process.env.CASCADE_VALUE = 'shell';
+
+    loadEnvCascade({ dir, environment: 'staging', expand: true });
+    expect(process.env.CASCADE_VALUE).toBe('shell');
+    expect(process.env.CASCADE_URL).toBe('http://shell');
+  });
+
+  it('should merge into process.env without overriding existing keys', () => {
+    write('.env', 'CASCADE_VALUE=file');
+    process.env.CASCADE_VALUE = 'shell';
+
+    loadEnvCascade({ dir, environment: 'staging' });
+    expect(process.env.CASCADE_VALUE).toBe('shell');
+
+    loadEnvCascade({ dir, environment: 'staging', override: true });
+    expect(process.env.CASCADE_VALUE).toBe('file');
+  });
+});
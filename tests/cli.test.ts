@@ -0,0 +1,325 @@
+import { execFileSync } from 'node:child_process';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { parseCliArgs, runCli } from '../lib/cli';
+
+describe('cli/parseCliArgs', () => {
+  it('should split commands, options, flags and rest arguments', () => {
+    const args = parseCliArgs([
+      'exec',
+      '--env-file',
+      'a.env',
+      '--env-file=b.env',
+      '--json',
+      '--',
+      'node',
+      '--version',
+    ]);
+
+    expect(args.command).toBe('exec');
+    expect(args.options['env-file']).toEqual(['a.env', 'b.env']);
+    expect([...args.flags]).toEqual(['json']);
+    expect(args.rest).toEqual(['node', '--version']);
+  });
+});
+
+describe('cli/runCli', () => {
+  let dir: string;
+  let stdout: string[];
+  let stderr: string[];
+
+  const run = (argv: string[], env: Record<string, string> = {}) =>
+    runCli(argv, {
+      cwd: dir,
+      env,
+      stdout: (line) => stdout.push(line),
+      stderr: (line) => stderr.push(line),
+    });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    stdout = [];
+    stderr = [];
+    writeFileSync(
+      join(dir, '.env'),
+      'PORT=8080\nAPI_URL=https://api.dev\nAPI_TOKEN=abc',
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print usage for help and fail for unknown commands', async () => {
+    expect(await run(['help'])).toBe(0);
+    expect(stdout[0]).toContain('Usage: env-x');
+    expect(await run(['nope'])).toBe(2);
+    expect(stderr[0]).toContain('Unknown command "nope"');
+  });
+
+  it('should not run Object.prototype members as commands', async () => {
+    expect(await run(['constructor'])).toBe(2);
+    expect(await run(['toString'])).toBe(2);
+    expect(stderr[1]).toContain('Unknown command "toString"');
+  });
+
+  describe('check', () => {
+    it('should validate against a required-keys file', async () => {
+      writeFileSync(
+        join(dir, 'required.txt'),
+        '# keys\nPORT\nAPI_URL=\nMISSING_KEY\n',
+      );
+
+      expect(await run(['check', '--required', 'required.txt'])).toBe(1);
+      expect(stderr.join('\n')).toContain('✖ MISSING_KEY: is required');
+
+      expect(
+        await run(['check', '--required', 'required.txt'], { MISSING_KEY: 'x' }),
+      ).toBe(0);
+      expect(stdout).toEqual(['✔ 3 variable(s) valid']);
+    });
+
+    it('should validate against a schema module and report JSON', async () => {
+      const validators = JSON.stringify(join(__dirname, '../lib/validators'));
+      writeFileSync(
+        join(dir, 'schema.js'),
+        `const { port, url } = require(${validators});
+module.exports = { schema: { PORT: port(), API_URL: url({ protocols: ['http'] }) } };`,
+      );
+
+      expect(await run(['check', '--schema', 'schema.js', '--json'])).toBe(1);
+      const report = JSON.parse(stdout.join('\n'));
+      expect(report.valid).toBe(false);
+      expect(report.issues).toEqual([
+        expect.objectContaining({
+          key: 'API_URL',
+          reason: 'protocol "https" is not one of: http',
+        }),
+      ]);
+    });
+
+    it('should require a schema or required-keys file', async () => {
+      expect(await run(['check'])).toBe(2);
+    });
+  });
+
+  describe('print', () => {
+    it('should print file variables with redaction', async () => {
+      expect(await run(['print'], { PORT: '9000', HOME: '/root' })).toBe(0);
+      expect(stdout).toEqual([
+        'API_TOKEN=[REDACTED]',
+        'API_URL=https://api.dev',
+        'PORT=9000',
+      ]);
+    });
+
+    it('should print JSON, including shell variables with --all', async () => {
+      await run(['print', '--json', '--all', '--override'], {
+        PORT: '9000',
+        HOME: '/root',
+      });
+      expect(JSON.parse(stdout.join('\n'))).toEqual({
+        API_TOKEN: '[REDACTED]',
+        API_URL: 'https://api.dev',
+        HOME: '/root',
+        PORT: '8080',
+      });
+    });
+  });
+
+  describe('get', () => {
+    it('should print typed values', async () => {
+      expect(await run(['get', 'PORT', '--type', 'int', '--json'])).toBe(0);
+      expect(stdout).toEqual(['8080']);
+    });
+
+    it('should fail for missing or invalid values', async () => {
+      expect(await run(['get', 'NOPE'])).toBe(1);
+      expect(stderr).toEqual(['NOPE is not set']);
+      expect(await run(['get', 'API_URL', '--type', 'int'])).toBe(1);
+      expect(await run(['get', 'PORT', '--type', 'date'])).toBe(2);
+    });
+  });
+
+  describe('exec', () => {
+    it('should run a command with the env files loaded', async () => {
+      writeFileSync(join(dir, 'custom.env'), 'EXIT_CODE=7');
+      const code = await run([
+        'exec',
+        '--env-file',
+        'custom.env',
+        '--',
+        process.execPath,
+        '-e',
+        'process.exit(Number(process.env.EXIT_CODE))',
+      ]);
+      expect(code).toBe(7);
+    });
+
+    it('should forward signals to the command', async () => {
+      const before = process.listeners('SIGTERM');
+      const pending = run([
+        'exec',
+        '--',
+        process.execPath,
+        '-e',
+        'setInterval(() => {}, 1000)',
+      ]);
+      await new Promise((wait) => setTimeout(wait, 50));
+
+      const forward = process
+        .listeners('SIGTERM')
+        .find((listener) => !before.includes(listener));
+      forward?.('SIGTERM');
+
+      expect(forward).toBeDefined();
+      expect(await pending).toBe(143);
+      expect(process.listeners('SIGTERM')).toEqual(before);
+    });
+
+    it('should require a command', async () => {
+      expect(await run(['exec'])).toBe(2);
+    });
+  });
+
+  describe('example', () => {
+    it('should report drift between .env and .env.example', async () => {
+      writeFileSync(join(dir, '.env.example'), 'PORT=\nAPI_URL=\nSENTRY_DSN=');
+      expect(await run(['example', 'check'])).toBe(1);
+      expect(stderr).toEqual([
+        '✖ SENTRY_DSN: missing',
+        '! API_TOKEN: not in the example file',
+      ]);
+
+      expect(await run(['example', 'check', '--example', '.env', '--json'])).toBe(
+        0,
+      );
+      expect(JSON.parse(stdout.join('\n'))).toMatchObject({ isValid: true });
+    });
+
+    it('should generate and update the example file', async () => {
+      expect(await run(['example', 'generate'])).toBe(0);
+      expect(stdout[0]).toBe('PORT=\nAPI_URL=\nAPI_TOKEN=');
+
+      writeFileSync(join(dir, '.env.example'), 'PORT=3000\n');
+      expect(
+        await run(['example', 'generate', '--out', '.env.example', '--update']),
+      ).toBe(0);
+      expect(readFileSync(join(dir, '.env.example'), 'utf8')).toBe(
+        'PORT=3000\n\nAPI_URL=\nAPI_TOKEN=\n',
+      );
+    });
+
+    it('should require a subcommand', async () => {
+      expect(await run(['example'])).toBe(2);
+    });
+  });
+
+  describe('types', () => {
+    it('should generate declarations and JSON Schema from the example file', async () => {
+      writeFileSync(join(dir, '.env.example'), '# Public API\nAPI_URL=\n');
+
+      expect(await run(['types'])).toBe(0);
+      expect(stdout[0]).toContain('      API_URL: string;');
+
+      expect(
+        await run(['types', '--format', 'json-schema', '--out', 'env.schema.json']),
+      ).toBe(0);
+      expect(
+        JSON.parse(readFileSync(join(dir, 'env.schema.json'), 'utf8')).properties,
+      ).toEqual({ API_URL: { type: 'string', description: 'Public API' } });
+    });
+
+    it('should reject unknown formats', async () => {
+      expect(await run(['types', '--format', 'yaml'])).toBe(2);
+    });
+  });
+
+  describe('encryption', () => {
+    it('should encrypt, load and decrypt env files', async () => {
+      expect(await run(['encrypt'])).toBe(0);
+      expect(stdout[0]).toContain('created');
+
+      const encrypted = readFileSync(join(dir, '.env'), 'utf8');
+      expect(encrypted).toMatch(/^API_TOKEN=encrypted:/m);
+      expect(encrypted).toContain('PORT=8080');
+
+      expect(await run(['get', 'API_TOKEN', '--env-file', '.env'])).toBe(0);
+      expect(stdout.pop()).toBe('abc');
+
+      expect(await run(['decrypt'])).toBe(0);
+      expect(readFileSync(join(dir, '.env'), 'utf8')).toBe(
+        'PORT=8080\nAPI_URL=https://api.dev\nAPI_TOKEN=abc',
+      );
+    });
+
+    it('should rotate the key', async () => {
+      await run(['encrypt', '--keys', 'API_TOKEN,PORT']);
+      const oldKey = readFileSync(join(dir, '.env.key'), 'utf8');
+
+      expect(await run(['rotate-key'])).toBe(0);
+      expect(readFileSync(join(dir, '.env.key'), 'utf8')).not.toBe(oldKey);
+      expect(existsSync(join(dir, '.env.key.old'))).toBe(false);
+      expect(await run(['get', 'PORT', '--type', 'int'])).toBe(0);
+      expect(stdout.pop()).toBe('8080');
+    });
+
+    it('should not touch the files when the new key cannot be saved', async () => {
+      await run(['encrypt', '--keys', 'API_TOKEN']);
+      const key = readFileSync(join(dir, '.env.key'), 'utf8').trim();
+      const encrypted = readFileSync(join(dir, '.env'), 'utf8');
+
+      expect(
+        await run(['rotate-key', '--key-file', 'missing/.env.key'], {
+          ENV_X_KEY: key,
+        }),
+      ).toBe(1);
+      expect(readFileSync(join(dir, '.env'), 'utf8')).toBe(encrypted);
+    });
+
+    it('should fail to decrypt without a key', async () => {
+      expect(await run(['decrypt'])).toBe(1);
+      expect(stderr[0]).toContain('No key');
+    });
+  });
+});
+
+describe('cli/bin', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    // Compile the sources as published, ESM included
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    execFileSync(process.execPath, [
+      require.resolve('typescript/bin/tsc'),
+      '--project',
+      join(__dirname, '..'),
+      '--outDir',
+      dir,
+      '--declarationDir',
+      dir,
+    ]);
+    writeFileSync(join(dir, 'package.json'), '{ "type": "module" }');
+  }, 120000);
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run the built executable', () => {
+    const output = execFileSync(
+      process.execPath,
+      [join(dir, 'bin.js'), 'get', 'SMOKE', '--type', 'int'],
+      { cwd: dir, env: { ...process.env, SMOKE: '42' }, encoding: 'utf8' },
+    );
+    expect(output.trim()).toBe('42');
+  });
+});
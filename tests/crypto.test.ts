@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { loadEnvCascade } from '../lib/cascade';
+import {
+  decryptEnv,
+  decryptValue,
+  encryptEnv,
+  encryptValue,
+  EnvDecryptionError,
+  generateEnvKey,
+  isEncryptedValue,
+  rotateEnvKey,
+} from '../lib/crypto';
+import { loadEnv, parseEnv } from '../lib/parser';
+
+describe('crypto/values', () => {
+  const key = generateEnvKey();
+
+  it('should round-trip values with a random IV', () => {
+    const encrypted = encryptValue('p@ss "word"\n', key);
+
+    expect(isEncryptedValue(encrypted)).toBe(true);
+    expect(encrypted).not.toBe(encryptValue('p@ss "word"\n', key));
+    expect(decryptValue(encrypted, key)).toBe('p@ss "word"\n');
+    expect(decryptValue('plain', key)).toBe('plain');
+  });
+
+  it('should accept hex keys', () => {
+    const hex = Buffer.from(key, 'base64').toString('hex');
+    expect(decryptValue(encryptValue('x', hex), key)).toBe('x');
+  });
+
+  it('should reject wrong keys and tampered values', () => {
+    const encrypted = encryptValue('secret', key);
+
+    expect(() => decryptValue(encrypted, generateEnvKey())).toThrow(
+      EnvDecryptionError,
+    );
+    expect(() => decryptValue(`${encrypted.slice(0, -4)}AAAA`, key)).toThrow(
+      'Wrong key or corrupted value',
+    );
+    expect(() => encryptValue('x', 'short')).toThrow('Invalid encryption key');
+  });
+});
+
+describe('crypto/env text', () => {
+  const key = generateEnvKey();
+  const text = [
+    '# Server',
+    'PORT=3000',
+    'export API_TOKEN="abc def"',
+    'DB_PASSWORD=hunter2',
+    '',
+  ].join('\n');
+
+  it('should encrypt sensitive keys and keep the rest of the file', () => {
+    const encrypted = encryptEnv(text, key);
+    const lines = encrypted.split('\n');
+
+    expect(lines[0]).toBe('# Server');
+    expect(lines[1]).toBe('PORT=3000');
+    expect(lines[2]).toMatch(/^export API_TOKEN="encrypted:[^"]+"$/);
+    expect(lines[3]).toMatch(/^DB_PASSWORD=encrypted:/);
+    expect(encryptEnv(encrypted, key)).toBe(encrypted);
+
+    expect(parseEnv(decryptEnv(encrypted, key))).toEqual(parseEnv(text));
+  });
+
+  it('should keep quoting and inline comments', () => {
+    const commented = [
+      "API_TOKEN='pa$$word'  # rotated monthly",
+      'DB_PASSWORD = hunter2 # primary',
+      'SESSION_SECRET="a\\nb" # multi',
+    ].join('\n');
+    const encrypted = encryptEnv(commented, key);
+    const lines = encrypted.split('\n');
+
+    expect(lines[0]).toMatch(/^API_TOKEN='encrypted:[^']+' {2}# rotated monthly$/);
+    expect(lines[1]).toMatch(/^DB_PASSWORD = encrypted:\S+ # primary$/);
+    expect(decryptEnv(encrypted, key)).toBe(commented);
+  });
+
+  it('should encrypt only the selected keys', () => {
+    const parsed = parseEnv(encryptEnv(text, key, { keys: ['PORT'] }));
+
+    expect(isEncryptedValue(parsed.PORT)).toBe(true);
+    expect(parsed.API_TOKEN).toBe('abc def');
+  });
+
+  it('should rotate keys', () => {
+    const newKey = generateEnvKey();
+    const rotated = rotateEnvKey(encryptEnv(text, key), key, newKey);
+
+    expect(parseEnv(decryptEnv(rotated, newKey))).toEqual(parseEnv(text));
+    expect(() => decryptEnv(rotated, key)).toThrow('Cannot decrypt DB_PASSWORD');
+  });
+});
+
+describe('crypto/loading', () => {
+  let dir: string;
+  const key = generateEnvKey();
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    writeFileSync(
+      join(dir, '.env'),
+      encryptEnv('CRYPTO_PORT=3000\nCRYPTO_TOKEN=a$b', key, {
+        keys: ['CRYPTO_TOKEN'],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should decrypt with the key file next to the env file', () => {
+    writeFileSync(join(dir, '.env.key'), `${key}\n`);
+
+    expect(loadEnv(join(dir, '.env'), { merge: false, expand: true })).toEqual({
+      CRYPTO_PORT: '3000',
+      CRYPTO_TOKEN: 'a$b',
+    });
+    expect(
+      loadEnvCascade({ dir, environment: 'test', merge: false }).parsed,
+    ).toEqual({ CRYPTO_PORT: '3000', CRYPTO_TOKEN: 'a$b' });
+  });
+
+  it('should decrypt with an explicit key', () => {
+    expect(loadEnv(join(dir, '.env'), { merge: false, key }).CRYPTO_TOKEN).toBe(
+      'a$b',
+    );
+  });
+
+  it('should refuse to load without a working key', () => {
+    expect(() => loadEnv(join(dir, '.env'), { merge: false })).toThrow(
+      'Cannot decrypt CRYPTO_TOKEN: set ENV_X_KEY or create',
+    );
+    expect(() =>
+      loadEnv(join(dir, '.env'), { merge: false, key: generateEnvKey() }),
+    ).toThrow('Cannot decrypt CRYPTO_TOKEN: wrong key or corrupted value');
+  });
+});
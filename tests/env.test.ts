@@ -1,5 +1,19 @@
 /* eslint-disable @typescript-eslint/no-require-imports */
-import { ENV, isCSR, isEnvVarDefined, isSSR } from '../lib/env';
+import * as envModule from '../lib/env';
+import {
+  assertRequiredEnv,
+  configureEnvironment,
+  env,
+  ENV,
+  getEnvironment,
+  isCSR,
+  isEnvVarDefined,
+  isSSR,
+  registerEnvironment,
+  resetEnvironmentConfig,
+  toEnvironment,
+} from '../lib/env';
+import { EnvValidationError } from '../lib/errors';
 
 describe('Environment Constants', () => {
   it('should have correct environment values', () => {
@@ -21,36 +35,130 @@ describe('Environment Checks', () => {
   it('should detect development environment', () => {
     process.env.NODE_ENV = 'development';
     jest.resetModules();
-    const { isDev } = require('../lib/env');
+    const { isDev, isDevEnv } = require('../lib/env');
     expect(isDev).toBe(true);
+    expect(isDevEnv()).toBe(true);
   });
 
   it('should detect production environment', () => {
     process.env.NODE_ENV = 'production';
     jest.resetModules();
-    const { isProd } = require('../lib/env');
+    const { isProd, isProdEnv } = require('../lib/env');
     expect(isProd).toBe(true);
+    expect(isProdEnv()).toBe(true);
   });
 
   it('should detect test environment', () => {
     process.env.NODE_ENV = 'test';
     jest.resetModules();
-    const { isTest } = require('../lib/env');
+    const { isTest, isTestEnv } = require('../lib/env');
     expect(isTest).toBe(true);
+    expect(isTestEnv()).toBe(true);
   });
 
   it('should detect staging environment', () => {
     process.env.NODE_ENV = 'staging';
     jest.resetModules();
-    const { isStage } = require('../lib/env');
+    const { isStage, isStageEnv } = require('../lib/env');
     expect(isStage).toBe(true);
+    expect(isStageEnv()).toBe(true);
   });
 
   it('should detect uat environment', () => {
     process.env.NODE_ENV = 'uat';
     jest.resetModules();
-    const { isUat } = require('../lib/env');
+    const { isUat, isUatEnv } = require('../lib/env');
     expect(isUat).toBe(true);
+    expect(isUatEnv()).toBe(true);
+  });
+});
+
+declare module '../lib/env' {
+  interface EnvironmentRegistry {
+    preview: true;
+  }
+}
+
+describe('Environment Resolution', () => {
+  const originalNodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = originalNodeEnv;
+    delete process.env.APP_ENV;
+    resetEnvironmentConfig();
+  });
+
+  it('should prefer APP_ENV over NODE_ENV and resolve aliases', () => {
+    process.env.NODE_ENV = 'production';
+    expect(getEnvironment()).toBe('production');
+
+    process.env.APP_ENV = 'Stage';
+    expect(getEnvironment()).toBe('staging');
+
+    process.env.APP_ENV = 'unknown';
+    expect(getEnvironment()).toBe('production');
+    expect(toEnvironment('prod')).toBe('production');
+    expect(toEnvironment('qa')).toBe('test');
+  });
+
+  it('should refresh the deprecated flags when the configuration changes', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.APP_ENV = 'uat';
+    configureEnvironment({});
+    expect(envModule.isUat).toBe(true);
+    expect(envModule.isProd).toBe(false);
+
+    configureEnvironment({ keys: ['NODE_ENV'] });
+    expect(envModule.isProd).toBe(true);
+    expect(envModule.isUat).toBe(false);
+  });
+
+  it('should compute the flags on read', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.APP_ENV = 'uat';
+    expect(envModule.isUatEnv()).toBe(true);
+    expect(envModule.isProdEnv()).toBe(false);
+
+    configureEnvironment({ keys: ['NODE_ENV'] });
+    expect(envModule.isProdEnv()).toBe(true);
+    expect(envModule.isUatEnv()).toBe(false);
+  });
+
+  it('should fall back to hostname rules in the browser', () => {
+    delete process.env.NODE_ENV;
+    expect(getEnvironment()).toBe('development');
+
+    configureEnvironment({
+      hostnames: [{ hostname: '*.localhost', environment: 'staging' }],
+      fallback: 'production',
+    });
+    expect(getEnvironment()).toBe('production');
+
+    configureEnvironment({
+      hostnames: [{ hostname: /^local/, environment: 'uat' }],
+    });
+    expect(getEnvironment()).toBe('uat');
+  });
+
+  it('should resolve no environment unless a fallback is configured', () => {
+    delete process.env.NODE_ENV;
+    configureEnvironment({ hostnames: [] });
+    expect(getEnvironment()).toBeUndefined();
+    expect(envModule.isDevEnv()).toBe(false);
+    expect(envModule.isProdEnv()).toBe(false);
+
+    configureEnvironment({ fallback: 'development' });
+    expect(getEnvironment()).toBe('development');
+    expect(envModule.isDevEnv()).toBe(true);
+  });
+
+  it('should register custom environments', () => {
+    process.env.APP_ENV = 'pr';
+    expect(getEnvironment()).toBe('test');
+
+    registerEnvironment('preview', { aliases: ['PR'] });
+    expect(getEnvironment()).toBe('preview');
+    expect(toEnvironment('preview')).toBe('preview');
   });
 });
 
@@ -142,3 +250,36 @@ describe('Environment Variable Check', () => {
     expect(isEnvVarDefined('TEST_VAR')).toBe(false);
   });
 });
+
+describe('Environment Variable Expansion', () => {
+  afterEach(() => {
+    delete process.env.EXPAND_HOST;
+    delete process.env.EXPAND_URL;
+  });
+
+  it('should expand references only when asked', () => {
+    process.env.EXPAND_HOST = 'localhost';
+    process.env.EXPAND_URL = 'http://${EXPAND_HOST}:${EXPAND_PORT:-80}';
+
+    expect(env('EXPAND_URL')).toBe('http://${EXPAND_HOST}:${EXPAND_PORT:-80}');
+    expect(env('EXPAND_URL', undefined, { expand: true })).toBe(
+      'http://localhost:80',
+    );
+  });
+});
+
+describe('Required Environment Variables', () => {
+  it('should throw an EnvValidationError listing missing keys', () => {
+    process.env.REQUIRED_PRESENT = 'yes';
+
+    expect(() => assertRequiredEnv(['REQUIRED_PRESENT'])).not.toThrow();
+    expect(() =>
+      assertRequiredEnv(['REQUIRED_A', 'REQUIRED_PRESENT', 'REQUIRED_B']),
+    ).toThrow(EnvValidationError);
+    expect(() => assertRequiredEnv(['REQUIRED_A', 'REQUIRED_B'])).toThrow(
+      '✖ REQUIRED_B: is required',
+    );
+
+    delete process.env.REQUIRED_PRESENT;
+  });
+});
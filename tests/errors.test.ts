@@ -0,0 +1,74 @@
+import { EnvValidationError, redactReceived, rejectionReason } from '../lib/errors';
+
+describe('errors/EnvValidationError', () => {
+  const error = new EnvValidationError([
+    {
+      key: 'PORT',
+      reason: '"abc" is not a valid port',
+      expected: 'a port number between 1 and 65535',
+      received: 'abc',
+      description: 'HTTP port',
+    },
+    { key: 'API_URL', reason: 'is required' },
+  ]);
+
+  it('should format a readable multi-line report', () => {
+    expect(error.format()).toBe(
+      [
+        'Invalid environment configuration (2 problems):',
+        '',
+        '  ✖ PORT: "abc" is not a valid port',
+        '      expected: a port number between 1 and 65535',
+        '      received: "abc"',
+        '      description: HTTP port',
+        '',
+        '  ✖ API_URL: is required',
+      ].join('\n'),
+    );
+    expect(error.message).toBe(error.format());
+    expect(error.name).toBe('EnvValidationError');
+  });
+
+  it('should serialize to structured JSON', () => {
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: 'EnvValidationError',
+      message: '2 environment variable(s) failed validation',
+      issues: [
+        {
+          key: 'PORT',
+          reason: '"abc" is not a valid port',
+          expected: 'a port number between 1 and 65535',
+          received: 'abc',
+          description: 'HTTP port',
+        },
+        { key: 'API_URL', reason: 'is required' },
+      ],
+    });
+  });
+});
+
+describe('errors/redactReceived', () => {
+  it('should redact values of sensitive keys', () => {
+    expect(redactReceived('DB_PASSWORD', 'hunter2')).toBe('[REDACTED]');
+    expect(redactReceived('PORT', 'abc')).toBe('abc');
+    expect(redactReceived('PORT', undefined)).toBeUndefined();
+  });
+
+  it('should truncate long values', () => {
+    expect(redactReceived('LONG', 'x'.repeat(100))).toBe(`${'x'.repeat(80)}…`);
+  });
+});
+
+describe('errors/rejectionReason', () => {
+  it('should keep the message when the value is shown in full', () => {
+    expect(
+      rejectionReason('PORT', 'abc', '"abc" is not a number', 'a number'),
+    ).toBe('"abc" is not a number');
+  });
+
+  it('should build the reason from the redacted value', () => {
+    expect(
+      rejectionReason('API_TOKEN', 'a', '"a" is not a valid port', 'a port'),
+    ).toBe('"[REDACTED]" is not a port');
+  });
+});
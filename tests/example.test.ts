@@ -0,0 +1,141 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  compareEnvExample,
+  generateEnvExample,
+  updateEnvExample,
+} from '../lib/example';
+import { int, port, str, url } from '../lib/validators';
+
+describe('example/compareEnvExample', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) =>
+    writeFileSync(join(dir, name), content);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    write('.env.example', '# Server\nPORT=3000\nHOST=\n\nAPI_TOKEN=');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.PORT;
+    delete process.env.HOST;
+    delete process.env.API_TOKEN;
+  });
+
+  it('should report missing, extra and empty keys of an env file', () => {
+    write('.env', 'PORT=8080\nHOST=\nDEBUG=true');
+
+    expect(
+      compareEnvExample({
+        envFile: join(dir, '.env'),
+        exampleFile: join(dir, '.env.example'),
+      }),
+    ).toEqual({
+      isValid: false,
+      missing: ['HOST', 'API_TOKEN'],
+      extra: ['DEBUG'],
+      empty: ['HOST'],
+    });
+  });
+
+  it('should check process.env when no env file is given', () => {
+    process.env.PORT = '8080';
+    process.env.HOST = 'localhost';
+    process.env.API_TOKEN = '';
+
+    expect(compareEnvExample({ exampleFile: join(dir, '.env.example') })).toEqual({
+      isValid: false,
+      missing: ['API_TOKEN'],
+      extra: [],
+      empty: ['API_TOKEN'],
+    });
+
+    process.env.API_TOKEN = 'abc';
+    expect(
+      compareEnvExample({ exampleFile: join(dir, '.env.example') }).isValid,
+    ).toBe(true);
+  });
+});
+
+describe('example/generateEnvExample', () => {
+  it('should strip values and keep comments, inline comments and grouping', () => {
+    const text = [
+      '# Server',
+      'PORT=3000',
+      'export HOST=localhost # bind address',
+      '',
+      '# Secrets',
+      'API_TOKEN="abc" # upstream token',
+      'PRIVATE_KEY="-----BEGIN KEY-----',
+      'abc',
+      '-----END KEY-----"',
+      '',
+    ].join('\n');
+
+    expect(generateEnvExample(text)).toBe(
+      '# Server\nPORT=\nexport HOST= # bind address\n\n# Secrets\nAPI_TOKEN= # upstream token\nPRIVATE_KEY=\n',
+    );
+  });
+
+  it('should insert descriptions for keys without a comment', () => {
+    const text = '# The HTTP port\nPORT=3000\nAPI_TOKEN=abc';
+
+    expect(
+      generateEnvExample(text, {
+        descriptions: { PORT: 'ignored', API_TOKEN: 'Token for the\nupstream API' },
+      }),
+    ).toBe('# The HTTP port\nPORT=\n# Token for the\n# upstream API\nAPI_TOKEN=\n');
+  });
+
+  it('should generate from a schema', () => {
+    const schema = {
+      PORT: port().default(3000).describe('HTTP port'),
+      API_URL: url(),
+      WORKERS: int().optional(),
+      SENTRY_DSN: str().requiredIn('production'),
+    };
+
+    expect(generateEnvExample(schema)).toBe(
+      [
+        '# HTTP port',
+        `# ${schema.PORT.meta.expected}; default: 3000`,
+        'PORT=',
+        '',
+        `# ${schema.API_URL.meta.expected}`,
+        'API_URL=',
+        '',
+        `# ${schema.WORKERS.meta.expected}; optional`,
+        'WORKERS=',
+        '',
+        '# a string; required in: production',
+        'SENTRY_DSN=',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('example/updateEnvExample', () => {
+  it('should append missing keys and keep existing lines', () => {
+    const example = '# Server\nPORT=3000\n';
+
+    expect(updateEnvExample(example, 'PORT=8080\nAPI_TOKEN=abc\nDEBUG=1')).toBe(
+      '# Server\nPORT=3000\n\nAPI_TOKEN=\nDEBUG=\n',
+    );
+    expect(updateEnvExample(example, 'PORT=8080')).toBe(example);
+  });
+
+  it('should append missing schema keys with their comments', () => {
+    expect(
+      updateEnvExample('PORT=\n', {
+        PORT: port(),
+        API_URL: url().describe('Upstream API'),
+      }),
+    ).toBe(`PORT=\n\n# Upstream API\n# ${url().meta.expected}\nAPI_URL=\n`);
+  });
+});
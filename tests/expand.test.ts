@@ -0,0 +1,98 @@
+import { EnvExpansionError, expandEnv, expandValue } from '../lib/expand';
+
+describe('expand/expandEnv', () => {
+  it('should expand braced and bare references', () => {
+    const result = expandEnv(
+      {
+        DB_USER: 'admin',
+        DB_HOST: 'localhost',
+        DATABASE_URL: 'postgres://${DB_USER}@$DB_HOST/app',
+      },
+      { source: {} },
+    );
+    expect(result.DATABASE_URL).toBe('postgres://admin@localhost/app');
+  });
+
+  it('should resolve references in dependency order', () => {
+    const result = expandEnv({ C: '${B}/c', B: '${A}/b', A: 'a' }, { source: {} });
+    expect(result).toEqual({ C: 'a/b/c', B: 'a/b', A: 'a' });
+  });
+
+  it('should fall back to the source for unknown keys', () => {
+    const result = expandEnv(
+      { URL: 'http://${HOST}' },
+      { source: { HOST: 'shell' } },
+    );
+    expect(result.URL).toBe('http://shell');
+  });
+
+  it('should prefer the source for references when asked', () => {
+    const result = expandEnv(
+      { HOST: 'localhost', URL: 'http://${HOST}' },
+      { source: { HOST: 'shell' }, sourceFirst: true },
+    );
+    expect(result).toEqual({ HOST: 'localhost', URL: 'http://shell' });
+  });
+
+  it('should use defaults for unset or empty variables', () => {
+    const result = expandEnv(
+      { EMPTY: '', A: '${EMPTY:-x}', B: '${MISSING:-${A}y}' },
+      { source: {} },
+    );
+    expect(result.A).toBe('x');
+    expect(result.B).toBe('xy');
+  });
+
+  it('should throw the given message for required variables', () => {
+    expect(() =>
+      expandEnv({ A: '${TOKEN:?must be provided}' }, { source: {} }),
+    ).toThrow('TOKEN: must be provided');
+  });
+
+  it('should keep escaped dollars literal', () => {
+    const result = expandEnv({ A: 'cost \\${PRICE} and \\$5' }, { source: {} });
+    expect(result.A).toBe('cost ${PRICE} and $5');
+  });
+
+  it('should not expand literal keys', () => {
+    const result = expandEnv(
+      { A: 'x', B: '${A}' },
+      { source: {}, literalKeys: ['B'] },
+    );
+    expect(result.B).toBe('${A}');
+  });
+
+  it('should name the cycle in circular references', () => {
+    expect(() =>
+      expandEnv({ A: '${B}', B: '${C}', C: '$A' }, { source: {} }),
+    ).toThrow('Circular variable reference: A -> B -> C -> A');
+    expect(() => expandEnv({ A: '${A}' }, { source: {} })).toThrow(
+      EnvExpansionError,
+    );
+  });
+
+  it('should resolve self-references to the source value', () => {
+    expect(
+      expandEnv({ PATH: '$PATH:/x' }, { source: { PATH: '/usr/bin' } }),
+    ).toEqual({ PATH: '/usr/bin:/x' });
+  });
+
+  it('should ignore inherited members of the source', () => {
+    expect(
+      expandEnv({ A: '[$toString]', B: '[${__proto__}]' }, { source: {} }),
+    ).toEqual({ A: '[]', B: '[]' });
+    expect(expandValue('[$constructor]', {})).toBe('[]');
+  });
+
+  it('should reject unterminated references', () => {
+    expect(() => expandEnv({ A: '${B' }, { source: {} })).toThrow(
+      'Unterminated "${" in value of A',
+    );
+  });
+});
+
+describe('expand/expandValue', () => {
+  it('should expand against the given variables', () => {
+    expect(expandValue('$A-${B}-$', { A: '1', B: '${A}2' })).toBe('1-12-$');
+  });
+});
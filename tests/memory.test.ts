@@ -0,0 +1,116 @@
+import { getMemoryReport, startMemoryMonitor } from '../lib/memory';
+
+describe('memory', () => {
+  const original = Object.getOwnPropertyDescriptor(window, 'performance');
+  const memory = {
+    usedJSHeapSize: 0,
+    totalJSHeapSize: 1000,
+    jsHeapSizeLimit: 1000,
+  };
+
+  beforeEach(() => {
+    Object.defineProperty(window, 'performance', {
+      value: { memory },
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    if (original) Object.defineProperty(window, 'performance', original);
+  });
+
+  describe('getMemoryReport', () => {
+    it('should report browser heap usage against the heap limit', () => {
+      memory.usedJSHeapSize = 856;
+
+      expect(getMemoryReport()).toEqual({
+        runtime: 'browser',
+        used: 856,
+        total: 1000,
+        limit: 1000,
+        percent: 85.6,
+        level: 'warn',
+      });
+      expect(getMemoryReport({ warn: 50, critical: 85 })?.level).toBe('critical');
+    });
+
+    it('should fall back to the Node.js heap', () => {
+      // @ts-expect-error - deleting window.performance
+      delete window.performance;
+
+      const report = getMemoryReport();
+
+      expect(report).toMatchObject({ runtime: 'node', level: 'ok' });
+      expect(report?.used).toBeGreaterThan(0);
+      expect(report?.limit).toBeGreaterThanOrEqual(report?.total ?? 0);
+      expect(report?.rss).toBeGreaterThan(0);
+    });
+
+    it('should leave the percentage out when the heap limit is unavailable', () => {
+      // @ts-expect-error - deleting window.performance
+      delete window.performance;
+      const getBuiltinModule = jest
+        .spyOn(process, 'getBuiltinModule')
+        .mockReturnValue(undefined);
+
+      const report = getMemoryReport({ warn: 0, critical: 0 });
+      getBuiltinModule.mockRestore();
+
+      expect(report).toMatchObject({ runtime: 'node', level: 'ok' });
+      expect(report?.limit).toBeUndefined();
+      expect(report?.percent).toBeUndefined();
+    });
+
+    it('should not compare browser usage with the allocated heap', () => {
+      Object.defineProperty(window, 'performance', {
+        value: { memory: { usedJSHeapSize: 990, totalJSHeapSize: 1000 } },
+        configurable: true,
+      });
+
+      expect(getMemoryReport()).toEqual({
+        runtime: 'browser',
+        used: 990,
+        total: 1000,
+        level: 'ok',
+      });
+    });
+  });
+
+  describe('startMemoryMonitor', () => {
+    it('should report level changes with hysteresis', () => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      const onThreshold = jest.fn();
+      memory.usedJSHeapSize = 500;
+
+      const monitor = startMemoryMonitor({ intervalMs: 1000, onThreshold });
+      expect(monitor.level).toBe('ok');
+
+      const step = (used: number) => {
+        memory.usedJSHeapSize = used;
+        jest.advanceTimersByTime(1000);
+        return monitor.level;
+      };
+
+      expect(step(920)).toBe('critical');
+      expect(step(880)).toBe('critical');
+      expect(step(840)).toBe('warn');
+      expect(step(770)).toBe('warn');
+      expect(step(740)).toBe('ok');
+      expect(
+        onThreshold.mock.calls.map(([report, previous]) => [
+          previous,
+          report.level,
+        ]),
+      ).toEqual([
+        ['ok', 'critical'],
+        ['critical', 'warn'],
+        ['warn', 'ok'],
+      ]);
+
+      monitor.stop();
+      expect(step(990)).toBe('ok');
+      expect(monitor.last?.percent).toBe(74);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { EnvParseError, loadEnv, parseEnv, parseEnvEntries } from '../lib/parser';
+
+describe('parser/parseEnv', () => {
+  it('should parse simple assignments', () => {
+    expect(parseEnv('PORT=3000\nHOST=localhost')).toEqual({
+      PORT: '3000',
+      HOST: 'localhost',
+    });
+  });
+
+  it('should ignore comments, blank lines and export prefixes', () => {
+    const text = [
+      '# comment',
+      '',
+      'export API_URL=https://example.com',
+      '  # indented',
+    ];
+    expect(parseEnv(text.join('\n'))).toEqual({ API_URL: 'https://example.com' });
+  });
+
+  it('should strip inline comments from unquoted values', () => {
+    expect(parseEnv('A=value # comment\nB=a#b')).toEqual({ A: 'value', B: 'a#b' });
+  });
+
+  it('should handle single, double and backtick quotes', () => {
+    const text = [
+      "SINGLE='it has \\n # no escapes'",
+      'DOUBLE="line\\nbreak \\"quoted\\"" # comment',
+      'BACKTICK=`mixed \'single\' and "double"`',
+    ].join('\n');
+
+    expect(parseEnv(text)).toEqual({
+      SINGLE: 'it has \\n # no escapes',
+      DOUBLE: 'line\nbreak "quoted"',
+      BACKTICK: 'mixed \'single\' and "double"',
+    });
+  });
+
+  it('should parse multiline quoted values', () => {
+    const text = 'KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1';
+    const entries = parseEnvEntries(text);
+
+    expect(entries[0]).toMatchObject({
+      key: 'KEY',
+      value: '-----BEGIN-----\nabc\n-----END-----',
+      line: 1,
+      endLine: 3,
+    });
+    expect(entries[1]).toMatchObject({ key: 'NEXT', value: '1', line: 4 });
+  });
+
+  it('should keep inline comments of entries', () => {
+    const entries = parseEnvEntries('A=1  # one\nB="2"# two\nC=3');
+
+    expect(entries.map((entry) => entry.comment)).toEqual([
+      '  # one',
+      '# two',
+      undefined,
+    ]);
+  });
+
+  it('should handle CRLF line endings', () => {
+    expect(parseEnv('A=1\r\nB="x\r\ny"\r\n')).toEqual({ A: '1', B: 'x\ny' });
+  });
+
+  it('should keep the last assignment of a repeated key', () => {
+    expect(parseEnv('A=1\nA=2')).toEqual({ A: '2' });
+  });
+
+  it('should report line and column of syntax errors', () => {
+    expect(() => parseEnv('A=1\n  B 2')).toThrow(EnvParseError);
+
+    try {
+      parseEnv('A=1\n  B 2');
+    } catch (error) {
+      expect(error).toBeInstanceOf(EnvParseError);
+      expect((error as EnvParseError).line).toBe(2);
+      expect((error as EnvParseError).column).toBe(5);
+    }
+  });
+
+  it('should report unterminated quotes at the opening quote', () => {
+    expect(() => parseEnv('A=1\nB="open')).toThrow(
+      'Unterminated double quoted value (line 2:3)',
+    );
+  });
+});
+
+describe('parser/loadEnv', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    delete process.env.LOAD_ENV_A;
+    delete process.env.LOAD_ENV_B;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.LOAD_ENV_A;
+    delete process.env.LOAD_ENV_B;
+  });
+
+  it('should merge values without overriding existing keys', () => {
+    const file = join(dir, '.env');
+    writeFileSync(file, 'LOAD_ENV_A=from-file\nLOAD_ENV_B=from-file');
+    process.env.LOAD_ENV_A = 'from-shell';
+
+    const parsed = loadEnv(file);
+
+    expect(parsed).toEqual({ LOAD_ENV_A: 'from-file', LOAD_ENV_B: 'from-file' });
+    expect(process.env.LOAD_ENV_A).toBe('from-shell');
+    expect(process.env.LOAD_ENV_B).toBe('from-file');
+  });
+
+  it('should override existing keys when asked', () => {
+    const file = join(dir, '.env');
+    writeFileSync(file, 'LOAD_ENV_A=from-file');
+    process.env.LOAD_ENV_A = 'from-shell';
+
+    loadEnv(file, { override: true });
+    expect(process.env.LOAD_ENV_A).toBe('from-file');
+  });
+
+  it('should not touch process.env when merge is disabled', () => {
+    const file = join(dir, '.env');
+    writeFileSync(file, 'LOAD_ENV_A=from-file');
+
+    expect(loadEnv(file, { merge: false })).toEqual({ LOAD_ENV_A: 'from-file' });
+    expect(process.env.LOAD_ENV_A).toBeUndefined();
+  });
+
+  it('should expand references when asked, except in single quotes', () => {
+    const file = join(dir, '.env');
+    writeFileSync(
+      file,
+      "LOAD_ENV_A=host\nLOAD_ENV_B=http://${LOAD_ENV_A}\nC='${LOAD_ENV_A}'",
+    );
+
+    expect(loadEnv(file, { expand: true, merge: false })).toEqual({
+      LOAD_ENV_A: 'host',
+      LOAD_ENV_B: 'http://host',
+      C: '${LOAD_ENV_A}',
+    });
+  });
+
+  it('should expand references with the values that are kept', () => {
+    const file = join(dir, '.env');
+    writeFileSync(
+      file,
+      'LOAD_ENV_A=localhost\nLOAD_ENV_B=postgres://${LOAD_ENV_A}/app',
+    );
+    process.env.LOAD_ENV_A = 'prod-db';
+
+    loadEnv(file, { expand: true });
+    expect(process.env.LOAD_ENV_A).toBe('prod-db');
+    expect(process.env.LOAD_ENV_B).toBe('postgres://prod-db/app');
+  });
+
+  it('should expand references with file values when overriding', () => {
+    const file = join(dir, '.env');
+    writeFileSync(
+      file,
+      'LOAD_ENV_A=localhost\nLOAD_ENV_B=postgres://${LOAD_ENV_A}/app',
+    );
+    process.env.LOAD_ENV_A = 'prod-db';
+
+    loadEnv(file, { expand: true, override: true });
+    expect(process.env.LOAD_ENV_B).toBe('postgres://localhost/app');
+  });
+
+  it('should throw for a missing file', () => {
+    expect(() => loadEnv(join(dir, 'missing.env'))).toThrow('Env file not found');
+  });
+});
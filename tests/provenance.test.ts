@@ -0,0 +1,221 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { loadEnvCascade } from '../lib/cascade';
+import { loadEnv, mergeIntoProcessEnv } from '../lib/parser';
+import {
+  describeEnv,
+  getEnvProvenance,
+  recordEnvOrigin,
+  resetEnvProvenance,
+} from '../lib/provenance';
+import { resolveSecrets } from '../lib/secrets';
+import { objectEnvSource, setEnvSource } from '../lib/sources';
+import { withEnv } from '../lib/testing';
+import { port, str } from '../lib/validators';
+
+describe('provenance', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) => {
+    writeFileSync(join(dir, name), content);
+    return join(dir, name);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    resetEnvProvenance();
+  });
+
+  afterEach(() => {
+    setEnvSource(undefined);
+    delete process.env.PROV_A;
+    delete process.env.PROV_B;
+    delete process.env.PROV_HOST;
+    delete process.env.PROV_URL;
+    delete process.env.PROV_TOKEN;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('getEnvProvenance', () => {
+    it('should record the file and line of loaded values', () => {
+      const path = write('.env', '# comment\nPROV_A=1\nPROV_B=2');
+      loadEnv(path);
+
+      expect(getEnvProvenance()).toEqual([
+        {
+          key: 'PROV_A',
+          value: '1',
+          origin: { type: 'file', file: path, line: 2 },
+          overridden: [],
+        },
+        {
+          key: 'PROV_B',
+          value: '2',
+          origin: { type: 'file', file: path, line: 3 },
+          overridden: [],
+        },
+      ]);
+    });
+
+    it('should list the cascade files a value replaced', () => {
+      write('.env', 'PROV_A=base');
+      write('.env.staging', 'PROV_A=staging');
+      loadEnvCascade({ dir, environment: 'staging' });
+
+      const [entry] = getEnvProvenance({ keys: ['PROV_A'] });
+      expect(entry.value).toBe('staging');
+      expect(entry.origin).toEqual({
+        type: 'file',
+        file: join(dir, '.env.staging'),
+        line: 1,
+      });
+      expect(entry.overridden).toEqual([
+        { type: 'file', file: join(dir, '.env'), line: 1 },
+      ]);
+    });
+
+    it('should keep shell values and list the file values they replaced', () => {
+      process.env.PROV_A = 'shell';
+      loadEnv(write('.env', 'PROV_A=file'));
+
+      const [entry] = getEnvProvenance({ keys: ['PROV_A'] });
+      expect(entry.value).toBe('shell');
+      expect(entry.origin).toEqual({ type: 'shell' });
+      expect(entry.overridden).toEqual([
+        { type: 'file', file: join(dir, '.env'), line: 1 },
+      ]);
+    });
+
+    it('should chain overrides of earlier loads', () => {
+      const base = write('.env', 'PROV_A=base');
+      const local = write('.env.local', 'PROV_A=local');
+      loadEnv(base);
+      loadEnv(local, { override: true });
+
+      const [entry] = getEnvProvenance();
+      expect(entry.origin.file).toBe(local);
+      expect(entry.overridden).toEqual([{ type: 'file', file: base, line: 1 }]);
+    });
+
+    it('should flag expanded values', () => {
+      loadEnv(write('.env', 'PROV_HOST=db\nPROV_URL=postgres://${PROV_HOST}/app'), {
+        expand: true,
+      });
+
+      const entries = getEnvProvenance();
+      expect(
+        entries.find((entry) => entry.key === 'PROV_URL')?.origin.expanded,
+      ).toBe(true);
+      expect(
+        entries.find((entry) => entry.key === 'PROV_HOST')?.origin.expanded,
+      ).toBeUndefined();
+    });
+
+    it('should fall back to the merge call for values without an origin', () => {
+      mergeIntoProcessEnv({ PROV_A: '1' });
+
+      expect(getEnvProvenance()[0].origin).toEqual({
+        type: 'source',
+        source: 'mergeIntoProcessEnv',
+      });
+    });
+
+    it('should forget values changed outside the loaders', () => {
+      loadEnv(write('.env', 'PROV_A=1'));
+      process.env.PROV_A = '2';
+
+      expect(getEnvProvenance()).toEqual([]);
+      expect(getEnvProvenance({ keys: ['PROV_A'] })[0].origin).toEqual({
+        type: 'shell',
+      });
+    });
+
+    it('should report schema defaults for unset variables', () => {
+      const entries = getEnvProvenance({
+        schema: { PROV_A: port().default(3000), PROV_B: str().optional() },
+      });
+
+      expect(entries).toEqual([
+        {
+          key: 'PROV_A',
+          value: '3000',
+          origin: { type: 'default' },
+          overridden: [],
+        },
+      ]);
+    });
+
+    it('should ask the source for the origin', async () => {
+      setEnvSource(objectEnvSource({ PROV_A: '1' }, 'config'));
+      await resolveSecrets({
+        providers: [{ name: 'vault', get: async () => 'secret' }],
+        keys: ['PROV_TOKEN'],
+        override: true,
+      });
+
+      const entries = getEnvProvenance({ keys: ['PROV_A', 'PROV_TOKEN'] });
+      expect(entries.map((entry) => entry.origin)).toEqual([
+        { type: 'source', source: 'config' },
+        { type: 'secret', source: 'vault' },
+      ]);
+    });
+
+    it('should report test overrides', () => {
+      const origin = withEnv(
+        { PROV_A: 'x' },
+        () => getEnvProvenance({ keys: ['PROV_A'] })[0].origin,
+      );
+
+      expect(origin).toEqual({ type: 'override' });
+    });
+
+    it('should redact secrets', () => {
+      process.env.PROV_TOKEN = 'abc';
+      process.env.PROV_URL = 'postgres://app:hunter2@db/app';
+
+      expect(
+        getEnvProvenance({ keys: ['PROV_TOKEN', 'PROV_URL'] }).map(
+          (entry) => entry.value,
+        ),
+      ).toEqual(['[REDACTED]', 'postgres://app:****@db/app']);
+    });
+
+    it('should ignore records when no value was replaced', () => {
+      recordEnvOrigin('PROV_A', '1', [{ type: 'default' }], false);
+
+      expect(getEnvProvenance()).toEqual([]);
+    });
+  });
+
+  describe('describeEnv', () => {
+    it('should print an aligned table', () => {
+      process.env.PROV_A = 'shell';
+      const path = write('.env', 'PROV_A=file\nPROV_TOKEN=abc');
+      loadEnv(path);
+
+      expect(describeEnv({ keys: ['PROV_A'] }).split('\n')).toEqual([
+        `KEY         VALUE       SOURCE${' '.repeat(path.length - 2)}OVERRIDDEN`,
+        `PROV_A      shell       shell${' '.repeat(path.length - 1)}${path}:1`,
+        `PROV_TOKEN  [REDACTED]  ${path}:2`,
+      ]);
+    });
+
+    it('should print JSON', () => {
+      loadEnv(write('.env', 'PROV_A=1'));
+
+      expect(JSON.parse(describeEnv({ format: 'json' }))).toEqual(
+        getEnvProvenance(),
+      );
+    });
+
+    it('should apply the redaction options', () => {
+      loadEnv(write('.env', 'PROV_A=1\nPROV_TOKEN=abc'));
+
+      expect(describeEnv({ format: 'json', allow: ['PROV_TOKEN'] })).toContain(
+        '"abc"',
+      );
+    });
+  });
+});
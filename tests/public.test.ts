@@ -0,0 +1,124 @@
+import { envString } from '../lib/accessors';
+import { env, getAllEnv, getEnvironment } from '../lib/env';
+import { getEnvProvenance } from '../lib/provenance';
+import {
+  configurePublicEnv,
+  DEFAULT_PUBLIC_PREFIXES,
+  EnvAccessError,
+  getPublicEnv,
+  isPublicKey,
+} from '../lib/public';
+import { defineEnv } from '../lib/schema';
+import { envSwitch } from '../lib/switch';
+import { getEnvTree } from '../lib/tree';
+import { str, url } from '../lib/validators';
+
+describe('public', () => {
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_API_URL = 'https://api.example.com';
+    process.env.APP_PUBLIC_NAME = 'demo';
+    process.env.DATABASE_URL = 'postgres://app:secret@db/app';
+  });
+
+  afterEach(() => {
+    configurePublicEnv({ prefixes: DEFAULT_PUBLIC_PREFIXES, guard: false });
+    delete process.env.NEXT_PUBLIC_API_URL;
+    delete process.env.APP_PUBLIC_NAME;
+    delete process.env.DATABASE_URL;
+  });
+
+  describe('isPublicKey / getPublicEnv', () => {
+    it('should match the default prefixes', () => {
+      expect(isPublicKey('NEXT_PUBLIC_API_URL')).toBe(true);
+      expect(isPublicKey('VITE_MODE')).toBe(true);
+      expect(isPublicKey('PUBLIC_ORIGIN')).toBe(true);
+      expect(isPublicKey('DATABASE_URL')).toBe(false);
+    });
+
+    it('should return only public variables', () => {
+      expect(getPublicEnv()).toEqual({
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+      });
+      expect(getPublicEnv({ VITE_A: '1', SECRET: '2' })).toEqual({ VITE_A: '1' });
+    });
+
+    it('should use custom prefixes', () => {
+      configurePublicEnv({ prefixes: ['APP_PUBLIC_'] });
+
+      expect(getPublicEnv()).toEqual({ APP_PUBLIC_NAME: 'demo' });
+      expect(isPublicKey('NEXT_PUBLIC_API_URL')).toBe(false);
+    });
+  });
+
+  describe('guard mode', () => {
+    it('should block server-only variables in the browser', () => {
+      configurePublicEnv({ guard: true });
+
+      expect(env('NEXT_PUBLIC_API_URL')).toBe('https://api.example.com');
+      expect(() => env('DATABASE_URL')).toThrow(EnvAccessError);
+      expect(() => envString('DATABASE_URL')).toThrow(
+        'Cannot read server-only environment variable "DATABASE_URL" in the browser',
+      );
+      expect(getAllEnv()).toEqual({
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+      });
+    });
+
+    it('should not expand server-only variables into public ones', () => {
+      process.env.NEXT_PUBLIC_LEAK = 'leak=${DATABASE_URL}';
+      configurePublicEnv({ guard: true });
+
+      try {
+        expect(env('NEXT_PUBLIC_LEAK', undefined, { expand: true })).toBe('leak=');
+      } finally {
+        delete process.env.NEXT_PUBLIC_LEAK;
+      }
+    });
+
+    it('should guard schemas, trees, provenance and the environment', () => {
+      configurePublicEnv({ guard: true });
+
+      expect(() => defineEnv({ DATABASE_URL: url() })).toThrow(EnvAccessError);
+      expect(defineEnv({ NEXT_PUBLIC_API_URL: url() })).toEqual({
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+      });
+      expect(
+        defineEnv({ DATABASE_URL: str() }, { source: { DATABASE_URL: 'x' } }),
+      ).toEqual({ DATABASE_URL: 'x' });
+
+      expect(getEnvTree()).toEqual({
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+      });
+
+      expect(getEnvProvenance({ all: true }).map((entry) => entry.key)).toEqual([
+        'NEXT_PUBLIC_API_URL',
+      ]);
+      expect(() => getEnvProvenance({ keys: ['DATABASE_URL'] })).toThrow(
+        EnvAccessError,
+      );
+
+      // NODE_ENV is server-only, so the hostname rules decide
+      expect(getEnvironment()).toBe('development');
+      expect(envSwitch({ development: 'dev', test: 'test' })).toBe('dev');
+    });
+
+    it('should not block reads on the server', () => {
+      configurePublicEnv({ guard: true });
+      const { window } = globalThis;
+      // @ts-expect-error - Simulate a server runtime
+      delete globalThis.window;
+
+      try {
+        expect(env('DATABASE_URL')).toBe('postgres://app:secret@db/app');
+        expect(getAllEnv()).toHaveProperty('DATABASE_URL');
+      } finally {
+        globalThis.window = window;
+      }
+    });
+
+    it('should allow every read when disabled', () => {
+      expect(env('DATABASE_URL')).toBe('postgres://app:secret@db/app');
+      expect(getAllEnv()).toHaveProperty('DATABASE_URL');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { safeArray } from '../lib/utils';
+
+describe('utils/safeArray', () => {
+  test('should handle null, arrays, objects and primitives', () => {
+    expect(safeArray(null)).toEqual([]);
+    expect(safeArray(undefined)).toEqual([]);
+    const list = [1, 2];
+    expect(safeArray(list)).toBe(list);
+    expect(safeArray({ id: 1 })).toEqual([{ id: 1 }]);
+    expect(safeArray(42)).toEqual([42]);
+  });
+
+  test('should split comma-separated strings', () => {
+    expect(safeArray('1, 2, 3')).toEqual(['1', '2', '3']);
+    expect(safeArray(' a,, b ,')).toEqual(['a', 'b']);
+    expect(safeArray('  ')).toEqual([]);
+    expect(safeArray('single')).toEqual(['single']);
+  });
+
+  test('should keep quoted items and escapes', () => {
+    expect(safeArray('"Doe, John" , \'a;b\', plain')).toEqual([
+      'Doe, John',
+      'a;b',
+      'plain',
+    ]);
+    expect(safeArray('"say \\"hi\\"", "back\\\\slash", ""')).toEqual([
+      'say "hi"',
+      'back\\slash',
+      '',
+    ]);
+    expect(safeArray('a\\,b, c')).toEqual(['a,b', 'c']);
+    expect(safeArray("it's, fine")).toEqual(["it's", 'fine']);
+  });
+
+  test('should support other delimiters', () => {
+    expect(safeArray('a;b; c', { delimiter: ';' })).toEqual(['a', 'b', 'c']);
+    expect(safeArray('a|b|"c|d"', { delimiter: '|' })).toEqual(['a', 'b', 'c|d']);
+    expect(safeArray(' a \t b\n"c d" ', { delimiter: ' ' })).toEqual([
+      'a',
+      'b',
+      'c d',
+    ]);
+    expect(safeArray('a::b', { delimiter: '::' })).toEqual(['a', 'b']);
+  });
+
+  test('should deduplicate and convert items', () => {
+    expect(safeArray('a,b,a', { unique: true })).toEqual(['a', 'b']);
+    expect(safeArray('80, 443, 80', { type: 'number', unique: true })).toEqual([
+      80, 443,
+    ]);
+    expect(safeArray('yes,off', { type: 'boolean' })).toEqual([true, false]);
+
+    expect(
+      safeArray('https://a.dev, https://a.dev', { type: 'url', unique: true }),
+    ).toEqual(['https://a.dev']);
+    expect(safeArray('-1, 2', { type: 'integer' })).toEqual([-1, 2]);
+
+    expect(() => safeArray('1,x', { type: 'number' })).toThrow(
+      '"x" is not a number',
+    );
+    expect(() => safeArray('1.5', { type: 'integer' })).toThrow(
+      '"1.5" is not an integer',
+    );
+    expect(() => safeArray('ftp//x', { type: 'url' })).toThrow(
+      '"ftp//x" is not a valid URL',
+    );
+  });
+
+  test('should reject the number formats the validators reject', () => {
+    expect(() => safeArray('0x1F', { type: 'number' })).toThrow(
+      '"0x1F" is not a number',
+    );
+    expect(() => safeArray('1,"  "', { type: 'number' })).toThrow(
+      '"  " is not a number',
+    );
+    expect(() => safeArray('0b11', { type: 'integer' })).toThrow(
+      '"0b11" is not an integer',
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { safeMap } from '../lib/utils';
+
+describe('utils/safeMap', () => {
+  test('should parse key-value pairs', () => {
+    expect(safeMap('a=1, b=2')).toEqual({ a: '1', b: '2' });
+    expect(safeMap('a=1,a=2,flag,=x, url=https://x.dev/?q=1')).toEqual({
+      a: '2',
+      flag: '',
+      url: 'https://x.dev/?q=1',
+    });
+    expect(safeMap('')).toEqual({});
+    expect(safeMap(42)).toEqual({});
+    expect(safeMap({ a: 1 })).toEqual({ a: 1 });
+  });
+
+  test('should keep quoted values', () => {
+    expect(
+      safeMap('Accept="text/html, application/json", X-Team=\'core\''),
+    ).toEqual({
+      Accept: 'text/html, application/json',
+      'X-Team': 'core',
+    });
+  });
+
+  test('should support other delimiters, separators and types', () => {
+    expect(
+      safeMap('api:3000 web:8080', {
+        delimiter: ' ',
+        separator: ':',
+        type: 'number',
+      }),
+    ).toEqual({ api: 3000, web: 8080 });
+    expect(
+      safeMap('/a->svc-a;/b->svc-b', { delimiter: ';', separator: '->' }),
+    ).toEqual({
+      '/a': 'svc-a',
+      '/b': 'svc-b',
+    });
+    expect(() => safeMap('a=maybe', { type: 'boolean' })).toThrow(
+      '"maybe" is not a boolean',
+    );
+  });
+});
@@ -79,4 +79,146 @@ describe('utils/safeStringify', () => {
       'redactedWord must be a non-empty string',
     );
   });
+
+  it('should redact sensitive keys case-insensitively', () => {
+    const result = JSON.parse(
+      safeStringify({ password: 'a', API_KEY: 'b', authToken: 'c', name: 'd' }),
+    );
+    expect(result).toEqual({
+      password: '[REDACTED]',
+      API_KEY: '[REDACTED]',
+      authToken: '[REDACTED]',
+      name: 'd',
+    });
+  });
+
+  it('should apply a redaction policy', () => {
+    const input = {
+      AUTHOR: 'nasr',
+      db: { connection: { user: 'app', pass: 'hunter2' } },
+      OPENAI_API_KEY: 'sk-1234567890abcd',
+      DATABASE_URL: 'postgres://app:hunter2@db/app',
+    };
+
+    const result = JSON.parse(
+      safeStringify(input, {
+        allow: ['AUTHOR'],
+        paths: ['db.connection.pass'],
+        mask: 'partial',
+      }),
+    );
+
+    expect(result).toEqual({
+      AUTHOR: 'nasr',
+      db: { connection: { user: 'app', pass: '[REDACTED]' } },
+      OPENAI_API_KEY: 'sk-****abcd',
+      DATABASE_URL: 'postgres://app:****@db/app',
+    });
+  });
+
+  describe('serializing runtime values', () => {
+    it('should replace circular references with their path', () => {
+      const config: Record<string, unknown> = { db: { host: 'h' } };
+      (config.db as Record<string, unknown>).parent = config;
+      config.self = config;
+      config.list = [config.db];
+
+      expect(JSON.parse(safeStringify(config))).toEqual({
+        db: { host: 'h', parent: '[Circular ~]' },
+        self: '[Circular ~]',
+        list: [{ host: 'h', parent: '[Circular ~]' }],
+      });
+
+      const nested = { a: { b: {} as Record<string, unknown> } };
+      nested.a.b.back = nested.a;
+      expect(JSON.parse(safeStringify(nested)).a.b.back).toBe('[Circular ~.a]');
+    });
+
+    it('should serialize BigInt, Map, Set, Date and typed arrays', () => {
+      const result = JSON.parse(
+        safeStringify({
+          big: 12345678901234567890n,
+          map: new Map<unknown, unknown>([
+            ['a', 1],
+            [2, 'b'],
+          ]),
+          set: new Set(['x', 'y']),
+          date: new Date('2024-01-02T03:04:05.000Z'),
+          bytes: new Uint8Array([1, 2, 3]),
+        }),
+      );
+
+      expect(result).toEqual({
+        big: '12345678901234567890n',
+        map: { a: 1, '2': 'b' },
+        set: ['x', 'y'],
+        date: '2024-01-02T03:04:05.000Z',
+        bytes: [1, 2, 3],
+      });
+    });
+
+    it('should serialize errors with their cause chain', () => {
+      const error = Object.assign(
+        new Error('query failed', { cause: new TypeError('socket closed') }),
+        { code: 'E_QUERY' },
+      );
+
+      expect(JSON.parse(safeStringify({ error }))).toEqual({
+        error: {
+          name: 'Error',
+          message: 'query failed',
+          code: 'E_QUERY',
+          cause: { name: 'TypeError', message: 'socket closed' },
+        },
+      });
+    });
+
+    it('should apply depth, string and array limits', () => {
+      const result = JSON.parse(
+        safeStringify(
+          {
+            deep: { level1: { level2: { level3: true } } },
+            text: 'abcdefghij',
+            list: [1, 2, 3, 4, 5],
+          },
+          { maxDepth: 2, maxStringLength: 4, maxArrayLength: 2 },
+        ),
+      );
+
+      expect(result).toEqual({
+        deep: { level1: { level2: '[Object]' } },
+        text: 'abcd… [+6 chars]',
+        list: [1, 2, '[… 3 more items]'],
+      });
+    });
+
+    it('should support a custom indent', () => {
+      expect(safeStringify({ a: 1 }, { indent: 0 })).toBe('{"a":1}');
+      expect(safeStringify({ a: 1 }, { indent: '\t' })).toBe('{\n\t"a": 1\n}');
+    });
+
+    it('should never throw on hostile values', () => {
+      const hostile = {
+        get boom() {
+          throw new Error('getter exploded');
+        },
+        toJSONThrows: {
+          toJSON() {
+            throw new Error('toJSON exploded');
+          },
+        },
+      };
+
+      expect(JSON.parse(safeStringify(hostile))).toEqual({
+        boom: '[Unserializable: getter exploded]',
+        toJSONThrows: '[Unserializable: toJSON exploded]',
+      });
+    });
+
+    it('should return a string for values JSON.stringify skips', () => {
+      expect(safeStringify(undefined)).toBe('null');
+      expect(safeStringify(() => 1)).toBe('null');
+      expect(safeStringify(Symbol('x'))).toBe('null');
+    });
+  });
 });
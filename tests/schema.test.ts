@@ -0,0 +1,120 @@
+import { EnvValidationError } from '../lib/errors';
+import { defineEnv } from '../lib/schema';
+import { bool, num, oneOf, port, str, url } from '../lib/validators';
+
+describe('schema/defineEnv', () => {
+  const schema = {
+    PORT: port().default(3000),
+    API_URL: url().describe('Base URL of the public API'),
+    LOG_LEVEL: oneOf(['debug', 'info']).default('info'),
+    DEBUG: bool().optional(),
+    SENTRY_DSN: str().requiredIn('production'),
+  };
+
+  it('should parse values and apply defaults', () => {
+    const config = defineEnv(schema, {
+      source: { API_URL: 'https://api.example.com', DEBUG: 'yes' },
+    });
+
+    expect(config).toEqual({
+      PORT: 3000,
+      API_URL: 'https://api.example.com',
+      LOG_LEVEL: 'info',
+      DEBUG: true,
+      SENTRY_DSN: undefined,
+    });
+
+    // Type inference: these assignments must compile
+    const portValue: number = config.PORT;
+    const level: 'debug' | 'info' = config.LOG_LEVEL;
+    const debug: boolean | undefined = config.DEBUG;
+    expect([portValue, level, debug]).toEqual([3000, 'info', true]);
+  });
+
+  it('should return a frozen object', () => {
+    const config = defineEnv(schema, { source: { API_URL: 'https://x.dev' } });
+    expect(Object.isFrozen(config)).toBe(true);
+  });
+
+  it('should report every problem at once', () => {
+    expect.assertions(2);
+    try {
+      defineEnv(schema, { source: { PORT: '99999', LOG_LEVEL: 'trace' } });
+    } catch (error) {
+      expect(error).toBeInstanceOf(EnvValidationError);
+      expect((error as EnvValidationError).issues).toEqual([
+        {
+          key: 'PORT',
+          reason: '"99999" is not a valid port',
+          expected: 'a port number between 1 and 65535',
+          received: '99999',
+          description: undefined,
+        },
+        {
+          key: 'API_URL',
+          reason: 'is required',
+          expected: 'an absolute URL',
+          description: 'Base URL of the public API',
+        },
+        {
+          key: 'LOG_LEVEL',
+          reason: '"trace" is not one of: debug, info',
+          expected: 'one of: debug, info',
+          received: 'trace',
+          description: undefined,
+        },
+      ]);
+    }
+  });
+
+  it('should redact received values of sensitive keys', () => {
+    expect(() =>
+      defineEnv({ DB_PASSWORD: num() }, { source: { DB_PASSWORD: 'hunter2' } }),
+    ).toThrow('✖ DB_PASSWORD: "[REDACTED]" is not a number');
+  });
+
+  it('should not mangle reasons when a redacted value is short', () => {
+    expect(() =>
+      defineEnv({ DB_PASSWORD: port() }, { source: { DB_PASSWORD: 'a' } }),
+    ).toThrow(
+      '✖ DB_PASSWORD: "[REDACTED]" is not a port number between 1 and 65535',
+    );
+  });
+
+  it('should exit the process when exitOnError is set', () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('exit');
+    });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    expect(() =>
+      defineEnv({ MISSING: str() }, { source: {}, exitOnError: true }),
+    ).toThrow('exit');
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(errorSpy.mock.calls[0][0]).toContain('✖ MISSING: is required');
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should apply per-environment requirements', () => {
+    const source = { API_URL: 'https://x.dev' };
+
+    expect(() =>
+      defineEnv(schema, { source, environment: 'development' }),
+    ).not.toThrow();
+    expect(() => defineEnv(schema, { source, environment: 'production' })).toThrow(
+      'SENTRY_DSN: is required',
+    );
+  });
+
+  it('should treat empty strings as not set', () => {
+    expect(defineEnv({ N: num().default(1) }, { source: { N: '' } }).N).toBe(1);
+  });
+
+  it('should read process.env by default', () => {
+    process.env.SCHEMA_PORT = '8080';
+    expect(defineEnv({ SCHEMA_PORT: port() }).SCHEMA_PORT).toBe(8080);
+    delete process.env.SCHEMA_PORT;
+  });
+});
@@ -0,0 +1,123 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { envString } from '../lib/accessors';
+import { env, getAllEnv } from '../lib/env';
+import {
+  directorySecretProvider,
+  EnvSecretError,
+  fileSecretsSource,
+  registerSecretProvider,
+  resolveSecrets,
+  type SecretProvider,
+} from '../lib/secrets';
+import { objectEnvSource, setEnvSource } from '../lib/sources';
+
+describe('secrets', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    writeFileSync(join(dir, 'db_password'), 'hunter2\n');
+    writeFileSync(join(dir, 'api-token'), ' abc ');
+  });
+
+  afterEach(() => {
+    setEnvSource(undefined);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('fileSecretsSource', () => {
+    it('should read KEY from the file named by KEY_FILE', () => {
+      setEnvSource(
+        fileSecretsSource(
+          objectEnvSource({
+            DB_PASSWORD_FILE: join(dir, 'db_password'),
+            PORT: '3000',
+          }),
+        ),
+      );
+
+      expect(env('DB_PASSWORD')).toBe('hunter2');
+      expect(envString('DB_PASSWORD_FILE')).toBe(join(dir, 'db_password'));
+      expect(getAllEnv()).toMatchObject({ DB_PASSWORD: 'hunter2', PORT: '3000' });
+    });
+
+    it('should reject conflicting and missing files', () => {
+      const source = fileSecretsSource(
+        objectEnvSource({
+          DB_PASSWORD: 'plain',
+          DB_PASSWORD_FILE: join(dir, 'db_password'),
+          API_TOKEN_FILE: join(dir, 'missing'),
+        }),
+      );
+
+      expect(() => source.get('DB_PASSWORD')).toThrow(
+        'Both DB_PASSWORD and DB_PASSWORD_FILE are set; set only one',
+      );
+      expect(() => source.get('API_TOKEN')).toThrow(EnvSecretError);
+      expect(() => source.get('API_TOKEN')).toThrow('points to a missing file');
+    });
+  });
+
+  describe('resolveSecrets', () => {
+    it('should read a directory of secret files', async () => {
+      const provider = directorySecretProvider(dir);
+
+      expect((await provider.keys?.())?.sort()).toEqual([
+        'API_TOKEN',
+        'DB_PASSWORD',
+      ]);
+      expect(await provider.get('API_TOKEN')).toBe('abc');
+      expect(await provider.get('MISSING')).toBeUndefined();
+    });
+
+    it('should install secrets from registered providers', async () => {
+      setEnvSource(objectEnvSource({ DB_PASSWORD: 'from-env' }));
+      const unregister = registerSecretProvider(directorySecretProvider(dir));
+
+      try {
+        expect(await resolveSecrets()).toEqual({
+          API_TOKEN: 'abc',
+          DB_PASSWORD: 'hunter2',
+        });
+      } finally {
+        unregister();
+      }
+
+      expect(env('API_TOKEN')).toBe('abc');
+      expect(env('DB_PASSWORD')).toBe('from-env');
+    });
+
+    it('should ask providers in order and honour override', async () => {
+      setEnvSource(objectEnvSource({ DB_PASSWORD: 'from-env' }));
+      const vault: SecretProvider = {
+        name: 'vault',
+        get: async (key) => (key === 'DB_PASSWORD' ? 'from-vault' : undefined),
+      };
+
+      const secrets = await resolveSecrets({
+        providers: [vault, directorySecretProvider(dir)],
+        keys: ['DB_PASSWORD', 'API_TOKEN'],
+        override: true,
+      });
+
+      expect(secrets).toEqual({ DB_PASSWORD: 'from-vault', API_TOKEN: 'abc' });
+      expect(env('DB_PASSWORD')).toBe('from-vault');
+    });
+
+    it('should report failing providers', async () => {
+      const broken: SecretProvider = {
+        name: 'broken',
+        get: async () => {
+          throw new Error('connection refused');
+        },
+      };
+
+      await expect(
+        resolveSecrets({ providers: [broken], keys: ['A'], apply: false }),
+      ).rejects.toThrow('Secret provider "broken" failed: connection refused');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { envInt } from '../lib/accessors';
+import { env, getAllEnv, isEnvVarDefined, validateRequiredEnv } from '../lib/env';
+import {
+  bunEnvSource,
+  chainEnvSources,
+  denoEnvSource,
+  detectEnvSource,
+  envSourceToObject,
+  getEnvSource,
+  importMetaEnvSource,
+  objectEnvSource,
+  processEnvSource,
+  setEnvSource,
+} from '../lib/sources';
+
+type Runtime = { Deno?: unknown; Bun?: unknown };
+
+describe('sources', () => {
+  afterEach(() => {
+    setEnvSource(undefined);
+    delete (globalThis as Runtime).Deno;
+    delete (globalThis as Runtime).Bun;
+    delete process.env.SOURCE_VALUE;
+  });
+
+  it('should read process.env live', () => {
+    const source = processEnvSource();
+    process.env.SOURCE_VALUE = 'live';
+
+    expect(source.get('SOURCE_VALUE')).toBe('live');
+    expect(source.keys()).toContain('SOURCE_VALUE');
+  });
+
+  it('should read plain objects and import.meta.env', () => {
+    const source = importMetaEnvSource({ VITE_API: '/api', DEV: true, NONE: null });
+
+    expect(source.name).toBe('import.meta.env');
+    expect(source.get('DEV')).toBe('true');
+    expect(source.get('NONE')).toBeUndefined();
+    expect(source.get('toString')).toBeUndefined();
+    expect(source.keys()).toEqual(['VITE_API', 'DEV']);
+  });
+
+  it('should read Deno.env and Bun.env', () => {
+    const vars: Record<string, string> = { DENO_VALUE: 'deno' };
+    (globalThis as Runtime).Deno = {
+      env: {
+        get: (key: string) => vars[key],
+        toObject: () => {
+          throw new Error('Requires env access to all');
+        },
+      },
+    };
+    (globalThis as Runtime).Bun = { env: { BUN_VALUE: 'bun' } };
+
+    expect(denoEnvSource().get('DENO_VALUE')).toBe('deno');
+    expect(denoEnvSource().keys()).toEqual([]);
+    expect(bunEnvSource().get('BUN_VALUE')).toBe('bun');
+    expect(detectEnvSource().name).toBe('Deno.env');
+  });
+
+  it('should let the first source holding a key win', () => {
+    const source = chainEnvSources(
+      objectEnvSource({ A: 'binding' }, 'bindings'),
+      objectEnvSource({ A: 'fallback', B: 'fallback' }),
+    );
+
+    expect(source.name).toBe('bindings > object');
+    expect(envSourceToObject(source)).toEqual({ A: 'binding', B: 'fallback' });
+  });
+
+  it('should route the accessors through the configured source', () => {
+    setEnvSource(objectEnvSource({ PORT: '8080', DEBUG: 'true', EMPTY: '' }));
+
+    expect(getEnvSource().name).toBe('object');
+    expect(env('PORT')).toBe(8080);
+    expect(envInt('PORT')).toBe(8080);
+    expect(isEnvVarDefined('DEBUG')).toBe(true);
+    expect(isEnvVarDefined('NODE_ENV')).toBe(false);
+    expect(getAllEnv()).toEqual({ PORT: '8080', DEBUG: 'true', EMPTY: '' });
+    expect(validateRequiredEnv(['PORT', 'EMPTY'])).toEqual({
+      isValid: false,
+      missing: ['EMPTY'],
+    });
+  });
+});
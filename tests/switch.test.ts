@@ -0,0 +1,93 @@
+import { configureEnvironment, resetEnvironmentConfig } from '../lib/env';
+import { generateEnvExample } from '../lib/example';
+import { defineEnv } from '../lib/schema';
+import { objectEnvSource, setEnvSource } from '../lib/sources';
+import { envSwitch, EnvSwitchError } from '../lib/switch';
+import { int, oneOf } from '../lib/validators';
+
+describe('switch/envSwitch', () => {
+  it('should select the value of the current environment', () => {
+    const ttl: number = envSwitch({ test: 0, production: 3600, default: 60 });
+
+    expect(ttl).toBe(0);
+    expect(envSwitch({ production: 3600, default: 60 })).toBe(60);
+    expect(
+      envSwitch(
+        { production: 'warn', staging: 'info' },
+        { environment: 'staging' },
+      ),
+    ).toBe('info');
+  });
+
+  it('should infer a union across branches', () => {
+    const value: number | string = envSwitch({ test: 1, default: 'none' });
+    expect(value).toBe(1);
+  });
+
+  it('should reject unknown environments at compile time', () => {
+    // @ts-expect-error - "prodution" is not an environment
+    expect(envSwitch({ prodution: 1, default: 2 })).toBe(2);
+  });
+
+  it('should throw when nothing matches and there is no default', () => {
+    expect(() => envSwitch({ production: 1, staging: 2 })).toThrow(EnvSwitchError);
+    expect(() => envSwitch({ production: 1, staging: 2 })).toThrow(
+      'No value for environment "test" and no default (cases: production, staging)',
+    );
+  });
+
+  it('should use the default when no environment is set', () => {
+    setEnvSource(objectEnvSource({}));
+    configureEnvironment({ hostnames: [] });
+    try {
+      expect(envSwitch({ production: 1, default: 2 })).toBe(2);
+      expect(() => envSwitch({ production: 1 })).toThrow(
+        'No environment is set and no default (cases: production)',
+      );
+    } finally {
+      setEnvSource(undefined);
+      resetEnvironmentConfig();
+    }
+  });
+});
+
+describe('switch/defaultByEnv', () => {
+  const schema = {
+    LOG_LEVEL: oneOf(['debug', 'info', 'warn']).defaultByEnv({
+      production: 'warn',
+      default: 'debug',
+    }),
+    WORKERS: int().defaultByEnv({ production: 8 }),
+  };
+
+  it('should apply the default of the environment', () => {
+    expect(defineEnv(schema, { source: {}, environment: 'production' })).toEqual({
+      LOG_LEVEL: 'warn',
+      WORKERS: 8,
+    });
+    expect(
+      defineEnv(schema, { source: { WORKERS: '2' }, environment: 'staging' }),
+    ).toEqual({ LOG_LEVEL: 'debug', WORKERS: 2 });
+  });
+
+  it('should let explicit variables win', () => {
+    expect(
+      defineEnv(schema, {
+        source: { LOG_LEVEL: 'info' },
+        environment: 'production',
+      }).LOG_LEVEL,
+    ).toBe('info');
+  });
+
+  it('should require variables without a default for the environment', () => {
+    expect(() => defineEnv(schema, { source: {}, environment: 'staging' })).toThrow(
+      '✖ WORKERS: is required',
+    );
+  });
+
+  it('should document per-environment defaults in .env.example', () => {
+    expect(generateEnvExample(schema)).toContain(
+      '# one of: debug, info, warn; production: "warn"; default: "debug"\nLOG_LEVEL=',
+    );
+  });
+});
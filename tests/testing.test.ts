@@ -0,0 +1,119 @@
+import { envInt } from '../lib/accessors';
+import * as envModule from '../lib/env';
+import { env, getAllEnv, getEnvironment } from '../lib/env';
+import * as main from '../lib/index';
+import { getEnvSource, objectEnvSource, setEnvSource } from '../lib/sources';
+import { mockEnv, setEnvironment, withEnv, withEnvironment } from '../lib/testing';
+
+describe('testing', () => {
+  const source = objectEnvSource({
+    APP_ENV: 'development',
+    PORT: '3000',
+    DEBUG: 'true',
+  });
+
+  beforeEach(() => {
+    setEnvSource(source);
+  });
+
+  afterEach(() => {
+    setEnvSource(undefined);
+  });
+
+  describe('withEnv', () => {
+    it('should override variables for a sync callback and restore them', () => {
+      const result = withEnv({ PORT: '0', DEBUG: undefined }, () => {
+        expect(getAllEnv()).toEqual({ APP_ENV: 'development', PORT: '0' });
+        return envInt('PORT');
+      });
+
+      expect(result).toBe(0);
+      expect(env('PORT')).toBe(3000);
+      expect(getEnvSource()).toBe(source);
+    });
+
+    it('should restore when the callback throws', async () => {
+      expect(() =>
+        withEnv({ PORT: '1' }, () => {
+          throw new Error('boom');
+        }),
+      ).toThrow('boom');
+      await expect(
+        withEnv({ PORT: '1' }, async () => {
+          throw new Error('async boom');
+        }),
+      ).rejects.toThrow('async boom');
+
+      expect(env('PORT')).toBe(3000);
+      expect(getEnvSource()).toBe(source);
+    });
+
+    it('should isolate concurrent async callbacks', async () => {
+      const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+      const read = async (port: string) =>
+        withEnv({ PORT: port }, async () => {
+          await tick();
+          const first = env('PORT');
+          const nested = withEnv({ DEBUG: 'false' }, () => [
+            env('PORT'),
+            env('DEBUG'),
+          ]);
+          await tick();
+          return [first, ...nested];
+        });
+
+      expect(await Promise.all([read('1'), read('2')])).toEqual([
+        [1, 1, false],
+        [2, 2, false],
+      ]);
+      expect(env('PORT')).toBe(3000);
+    });
+  });
+
+  describe('mockEnv', () => {
+    it('should override variables until restored', () => {
+      const first = mockEnv({ PORT: '1' });
+      const second = mockEnv({ PORT: '2', API_URL: 'http://localhost' });
+
+      expect(env('PORT')).toBe(2);
+      first.restore();
+      expect(env('API_URL')).toBe('http://localhost');
+      second.restore();
+      second.restore();
+
+      expect(env('PORT')).toBe(3000);
+      expect(env('API_URL')).toBeUndefined();
+      expect(getEnvSource()).toBe(source);
+    });
+  });
+
+  describe('setEnvironment', () => {
+    it('should update the resolver and the checks', () => {
+      expect(envModule.isDevEnv()).toBe(true);
+
+      const staging = setEnvironment('staging');
+      expect(getEnvironment()).toBe('staging');
+      expect(envModule.isStageEnv()).toBe(true);
+      expect(envModule.isDevEnv()).toBe(false);
+
+      staging.restore();
+      expect(getEnvironment()).toBe('development');
+      expect(envModule.isDevEnv()).toBe(true);
+    });
+
+    it('should switch the environment for a callback', async () => {
+      const inside = await withEnvironment('production', async () => [
+        getEnvironment(),
+        envModule.isProdEnv(),
+      ]);
+
+      expect(inside).toEqual(['production', true]);
+      expect(envModule.isProdEnv()).toBe(false);
+    });
+  });
+
+  it('should not be part of the main entry point', () => {
+    expect(Object.keys(main)).not.toContain('withEnv');
+    expect(Object.keys(main)).not.toContain('mockEnv');
+  });
+});
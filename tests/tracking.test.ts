@@ -0,0 +1,119 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import { envInt, envString } from '../lib/accessors';
+import { env, isEnvVarDefined } from '../lib/env';
+import { objectEnvSource, setEnvSource } from '../lib/sources';
+import {
+  disableEnvTracking,
+  enableEnvTracking,
+  getEnvAccesses,
+  isEnvTrackingEnabled,
+  resetEnvTracking,
+} from '../lib/tracking';
+import { getEnvUsageReport } from '../lib/usage';
+
+describe('tracking', () => {
+  beforeEach(() => {
+    setEnvSource(
+      objectEnvSource({ DATABASE_URL: 'postgres://db', PORT: '', LEGACY_URL: 'x' }),
+    );
+  });
+
+  afterEach(() => {
+    disableEnvTracking();
+    resetEnvTracking();
+    setEnvSource(undefined);
+  });
+
+  it('should not record reads until enabled', () => {
+    env('DATABASE_URL');
+
+    expect(isEnvTrackingEnabled()).toBe(false);
+    expect(getEnvAccesses()).toEqual([]);
+  });
+
+  it('should record counts, defaults and the first read location', () => {
+    enableEnvTracking();
+
+    env('DATABASE_URL');
+    envString('DATABASE_URL');
+    envInt('PORT', { default: 3000 });
+    isEnvVarDefined('DATABSE_URL');
+
+    const [database, typo, port] = getEnvAccesses();
+    expect(database).toMatchObject({
+      key: 'DATABASE_URL',
+      count: 2,
+      found: true,
+      defaulted: false,
+    });
+    expect(database.firstAccess).toContain('tracking.test.ts');
+    expect(typo).toMatchObject({ key: 'DATABSE_URL', found: false });
+    expect(port).toMatchObject({ key: 'PORT', found: false, defaulted: true });
+
+    enableEnvTracking({ stack: false });
+    env('LEGACY_URL');
+    const legacy = getEnvAccesses().find((access) => access.key === 'LEGACY_URL');
+    expect(legacy).toMatchObject({ count: 1, found: true });
+    expect(legacy?.firstAccess).toBeUndefined();
+  });
+
+  it('should report unused, missing and defaulted keys', () => {
+    enableEnvTracking();
+    env('DATABSE_URL');
+    env('PORT', 3000);
+
+    expect(getEnvUsageReport({ ignore: [/^LEGACY_/] })).toEqual({
+      accessed: ['DATABSE_URL', 'PORT'],
+      unused: ['DATABASE_URL'],
+      missing: ['DATABSE_URL', 'PORT'],
+      defaulted: ['PORT'],
+    });
+  });
+
+  it('should compare with env files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    writeFileSync(join(dir, '.env'), 'PORT=3000\nLEGACY_URL=x\n');
+
+    try {
+      enableEnvTracking();
+      env('DATABASE_URL');
+      env('PORT');
+
+      expect(getEnvUsageReport({ files: [join(dir, '.env')] })).toMatchObject({
+        unused: ['LEGACY_URL'],
+        missing: ['DATABASE_URL'],
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep the main entry point free of Node builtins', () => {
+    // Follow the runtime imports and re-exports of index.ts, skipping `import type`
+    const visited = new Set<string>();
+    const builtins: string[] = [];
+    const visit = (file: string) => {
+      if (visited.has(file)) return;
+      visited.add(file);
+      const source = readFileSync(file, 'utf8');
+      for (const [, specifier] of source.matchAll(
+        /^(?:import|export) (?!type )[^;]*?from '([^']+)';/gms,
+      )) {
+        if (specifier.startsWith('.')) {
+          visit(join(dirname(file), specifier.replace(/\.js$/, '.ts')));
+        } else {
+          builtins.push(specifier);
+        }
+      }
+    };
+    visit(join(__dirname, '../lib/index.ts'));
+
+    expect(visited).toContain(join(__dirname, '../lib/env.ts'));
+    expect(visited).toContain(join(__dirname, '../lib/tracking.ts'));
+    expect(visited).toContain(join(__dirname, '../lib/memory.ts'));
+    expect(builtins).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { EnvValidationError } from '../lib/errors';
+import { objectEnvSource, setEnvSource } from '../lib/sources';
+import { EnvTreeError, flattenToEnv, getEnvTree } from '../lib/tree';
+import { port } from '../lib/validators';
+
+describe('tree', () => {
+  beforeEach(() => {
+    setEnvSource(
+      objectEnvSource({
+        APP_DB__HOST: 'localhost',
+        APP_DB__PORT: '5432',
+        APP_DB__SSL_MODE: 'true',
+        APP_REDIS__CLUSTER__0__HOST: 'r1',
+        APP_REDIS__CLUSTER__1__HOST: 'r2',
+        APP_EMPTY: '',
+        APP___proto____polluted: 'yes',
+        OTHER__KEY: 'ignored',
+      }),
+    );
+  });
+
+  afterEach(() => {
+    setEnvSource(undefined);
+  });
+
+  describe('getEnvTree', () => {
+    it('should nest keys with array indexes', () => {
+      expect(getEnvTree({ prefix: 'APP_' })).toEqual({
+        DB: { HOST: 'localhost', PORT: '5432', SSL_MODE: 'true' },
+        REDIS: { CLUSTER: [{ HOST: 'r1' }, { HOST: 'r2' }] },
+      });
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it('should not treat inherited members as existing nodes', () => {
+      const source = objectEnvSource({
+        APP_TO_STRING__X: '1',
+        APP_CONSTRUCTOR__X: '2',
+        APP_HAS_OWN_PROPERTY: '3',
+      });
+
+      const tree = getEnvTree({ prefix: 'APP_', camelCase: true, source });
+      expect(tree).toEqual({ toString: { x: '1' }, hasOwnProperty: '3' });
+      expect(Object.hasOwn(tree, 'constructor')).toBe(false);
+    });
+
+    it('should camel-case segments and coerce leaves', () => {
+      expect(getEnvTree({ prefix: 'APP_', camelCase: true, coerce: true })).toEqual(
+        {
+          db: { host: 'localhost', port: 5432, sslMode: true },
+          redis: { cluster: [{ host: 'r1' }, { host: 'r2' }] },
+        },
+      );
+
+      const tree = getEnvTree({
+        prefix: 'APP_REDIS__',
+        camelCase: true,
+        coerce: (value, path) => `${path.join('.')}=${value}`,
+      });
+      expect(tree).toEqual({
+        cluster: [{ host: 'cluster.0.host=r1' }, { host: 'cluster.1.host=r2' }],
+      });
+    });
+
+    it('should only coerce leaves that print back the same', () => {
+      const source = objectEnvSource({
+        ZIP: '01234',
+        VERSION: '1.10',
+        HEX: '0x1F',
+        BLANK: ' ',
+        FLAG: 'TRUE',
+        LIST: '[1,2]',
+        RATIO: '-0.5',
+        ENABLED: 'false',
+      });
+
+      expect(getEnvTree({ coerce: true, source })).toEqual({
+        ZIP: '01234',
+        VERSION: '1.10',
+        HEX: '0x1F',
+        BLANK: ' ',
+        FLAG: 'TRUE',
+        LIST: '[1,2]',
+        RATIO: -0.5,
+        ENABLED: false,
+      });
+    });
+
+    it('should validate leaves by path', () => {
+      expect(
+        getEnvTree({
+          prefix: 'APP_DB__',
+          camelCase: true,
+          validators: { port: port() },
+        }),
+      ).toEqual({ host: 'localhost', port: 5432, sslMode: 'true' });
+
+      expect(() =>
+        getEnvTree({ prefix: 'APP_DB__', validators: { HOST: port() } }),
+      ).toThrow(EnvValidationError);
+
+      expect(() =>
+        getEnvTree({
+          source: objectEnvSource({ DB__PASSWORD: 'hunter2' }),
+          validators: { 'DB.PASSWORD': port() },
+        }),
+      ).toThrow('DB__PASSWORD: "[REDACTED]" is not a port number');
+    });
+
+    it('should reject keys that are both a value and a parent', () => {
+      setEnvSource(objectEnvSource({ DB: 'x', DB__HOST: 'localhost' }));
+
+      expect(() => getEnvTree()).toThrow(EnvTreeError);
+      expect(() => getEnvTree()).toThrow(
+        'DB__HOST is nested under DB, which has a value',
+      );
+    });
+  });
+
+  describe('flattenToEnv', () => {
+    it('should be the reverse of getEnvTree', () => {
+      const config = {
+        db: { host: 'localhost', port: 5432, sslMode: true, password: null },
+        redis: { cluster: [{ host: 'r1' }, { host: 'r2' }] },
+        startedAt: new Date('2024-01-02T03:04:05.000Z'),
+      };
+
+      const vars = flattenToEnv(config, { prefix: 'APP_', camelCase: true });
+      expect(vars).toEqual({
+        APP_DB__HOST: 'localhost',
+        APP_DB__PORT: '5432',
+        APP_DB__SSL_MODE: 'true',
+        APP_REDIS__CLUSTER__0__HOST: 'r1',
+        APP_REDIS__CLUSTER__1__HOST: 'r2',
+        APP_STARTED_AT: '2024-01-02T03:04:05.000Z',
+      });
+
+      expect(
+        getEnvTree({
+          prefix: 'APP_',
+          camelCase: true,
+          coerce: true,
+          source: objectEnvSource(vars),
+        }),
+      ).toEqual({
+        ...config,
+        db: { host: 'localhost', port: 5432, sslMode: true },
+        startedAt: '2024-01-02T03:04:05.000Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { generateEnvJsonSchema, generateEnvTypes } from '../lib/typegen';
+import { oneOf, port, str, url } from '../lib/validators';
+
+describe('typegen', () => {
+  const schema = {
+    PORT: port().default(3000),
+    API_URL: url().describe('Base URL of the public API'),
+    LOG_LEVEL: oneOf(['debug', 'info']),
+    SENTRY_DSN: str().requiredIn('production'),
+    APP_ENV: str().optional(),
+  };
+
+  describe('generateEnvTypes', () => {
+    it('should augment NodeJS.ProcessEnv from a schema', () => {
+      const types = generateEnvTypes(schema);
+
+      expect(types).toContain('declare global {\n  namespace NodeJS {');
+      expect(types).toContain(
+        [
+          '      /**',
+          '       * a port number between 1 and 65535',
+          '       * @default 3000',
+          '       */',
+          '      PORT?: string;',
+          '      /**',
+          '       * Base URL of the public API',
+        ].join('\n'),
+      );
+      expect(types).toContain("      LOG_LEVEL: 'debug' | 'info';");
+      expect(types).toContain('      SENTRY_DSN?: string;');
+      expect(types).toMatch(
+        / {6}APP_ENV\?: 'development' \| 'production' \| .*'prod'/,
+      );
+      expect(types.endsWith('export {};\n')).toBe(true);
+    });
+
+    it('should mark variables required in a given environment', () => {
+      expect(generateEnvTypes(schema, { environment: 'production' })).toContain(
+        '      SENTRY_DSN: string;',
+      );
+    });
+
+    it('should use the comments of an example file', () => {
+      const types = generateEnvTypes(
+        '# Database\n# Postgres URL\nDATABASE_URL=\n\nDEBUG=',
+      );
+
+      expect(types).toContain(
+        '      /**\n       * Database\n       * Postgres URL\n       */\n      DATABASE_URL: string;\n      DEBUG: string;',
+      );
+    });
+  });
+
+  describe('generateEnvJsonSchema', () => {
+    it('should describe types, enums, defaults and descriptions', () => {
+      const document = generateEnvJsonSchema(schema, { title: 'API' });
+
+      expect(document).toMatchObject({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        title: 'API',
+        type: 'object',
+        required: ['API_URL', 'LOG_LEVEL'],
+      });
+      expect(document.properties.PORT).toEqual({
+        type: 'integer',
+        minimum: 1,
+        maximum: 65535,
+        default: 3000,
+      });
+      expect(document.properties.API_URL).toEqual({
+        type: 'string',
+        format: 'uri',
+        description: 'Base URL of the public API',
+      });
+      expect(document.properties.LOG_LEVEL).toEqual({
+        type: 'string',
+        enum: ['debug', 'info'],
+      });
+      expect(document.properties.APP_ENV.enum).toContain('staging');
+    });
+
+    it('should describe example files as strings', () => {
+      expect(generateEnvJsonSchema('# Postgres URL\nDATABASE_URL=')).toMatchObject({
+        properties: {
+          DATABASE_URL: { type: 'string', description: 'Postgres URL' },
+        },
+        required: ['DATABASE_URL'],
+      });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  bytes,
+  duration,
+  email,
+  host,
+  int,
+  ipv4,
+  ipv6,
+  json,
+  list,
+  makeValidator,
+  matches,
+  oneOf,
+  parseBytes,
+  parseDuration,
+  port,
+  url,
+  type EnvVar,
+} from '../lib/validators';
+
+describe('validators', () => {
+  it('should validate urls and allowed protocols', () => {
+    expect(url().validate('https://example.com')).toEqual({
+      ok: true,
+      value: 'https://example.com',
+    });
+    expect(url().validate('example.com')).toEqual({
+      ok: false,
+      error: '"example.com" is not a valid URL',
+    });
+    expect(url({ protocols: ['https'] }).validate('http://example.com')).toEqual({
+      ok: false,
+      error: 'protocol "http" is not one of: https',
+    });
+  });
+
+  it('should validate hosts', () => {
+    expect(host().validate('api.example.com').ok).toBe(true);
+    expect(host().validate('localhost').ok).toBe(true);
+    expect(host().validate('10.0.0.1').ok).toBe(true);
+    expect(host().validate('[::1]').ok).toBe(true);
+    expect(host().validate('bad_host!').ok).toBe(false);
+  });
+
+  it('should validate ports', () => {
+    expect(port().validate('8080')).toEqual({ ok: true, value: 8080 });
+    expect(port().validate('0').ok).toBe(false);
+    expect(port().validate('65536').ok).toBe(false);
+    expect(port().validate('80.5').ok).toBe(false);
+  });
+
+  it('should validate emails', () => {
+    expect(email().validate('ops@example.com').ok).toBe(true);
+    expect(email().validate('ops@example').ok).toBe(false);
+  });
+
+  it('should validate IPv4 and IPv6 addresses', () => {
+    expect(ipv4().validate('192.168.1.255').ok).toBe(true);
+    expect(ipv4().validate('256.1.1.1').ok).toBe(false);
+    expect(ipv4().validate('01.1.1.1').ok).toBe(false);
+
+    for (const address of [
+      '::1',
+      '2001:db8::8a2e:370:7334',
+      '::ffff:192.0.2.1',
+      'fe80::1%eth0',
+    ]) {
+      expect(ipv6().validate(address).ok).toBe(true);
+    }
+    for (const address of [
+      '1:2:3:4:5:6:7:8:9',
+      '1::2::3',
+      'gggg::1',
+      '::ffff:999.0.0.1',
+    ]) {
+      expect(ipv6().validate(address).ok).toBe(false);
+    }
+  });
+
+  it('should validate enums and regular expressions', () => {
+    expect(oneOf(['a', 'b']).validate('b')).toEqual({ ok: true, value: 'b' });
+    expect(oneOf(['a', 'b']).meta.choices).toEqual(['a', 'b']);
+    expect(matches(/^v\d+$/).validate('v2').ok).toBe(true);
+    const global = matches(/^v\d+$/g);
+    expect(global.validate('v2').ok).toBe(true);
+    expect(global.validate('v2').ok).toBe(true);
+    expect(matches(/^v\d+$/).validate('2')).toEqual({
+      ok: false,
+      error: '"2" does not match /^v\\d+$/',
+    });
+  });
+
+  it('should validate integer ranges', () => {
+    const validator = int({ min: 1, max: 10 });
+    expect(validator.meta.expected).toBe('an integer >= 1 and <= 10');
+    expect(validator.validate('5')).toEqual({ ok: true, value: 5 });
+    expect(validator.validate('11')).toEqual({
+      ok: false,
+      error: '11 is out of range',
+    });
+    expect(validator.validate('1.5').ok).toBe(false);
+  });
+
+  it('should convert durations to milliseconds', () => {
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('5m')).toBe(300_000);
+    expect(parseDuration('1h30m')).toBe(5_400_000);
+    expect(parseDuration('250')).toBe(250);
+    expect(parseDuration('soon')).toBeUndefined();
+    expect(duration().validate('1h')).toEqual({ ok: true, value: 3_600_000 });
+  });
+
+  it('should convert byte sizes', () => {
+    expect(parseBytes('10MB')).toBe(10 * 1024 * 1024);
+    expect(parseBytes('1.5kb')).toBe(1536);
+    expect(parseBytes('42')).toBe(42);
+    expect(parseBytes('10XB')).toBeUndefined();
+    expect(bytes().validate('1GiB')).toEqual({ ok: true, value: 1024 ** 3 });
+  });
+
+  it('should parse and check JSON', () => {
+    const isOrigins = (value: unknown): value is { origins: string[] } =>
+      typeof value === 'object' && value !== null && 'origins' in value;
+
+    expect(json(isOrigins).validate('{"origins":["a"]}')).toEqual({
+      ok: true,
+      value: { origins: ['a'] },
+    });
+    expect(json(isOrigins).validate('[]')).toEqual({
+      ok: false,
+      error: 'JSON does not match the expected structure',
+    });
+    expect(json().validate('{oops').ok).toBe(false);
+  });
+
+  it('should validate every item of a list', () => {
+    expect(list(port()).validate('80, 443')).toEqual({
+      ok: true,
+      value: [80, 443],
+    });
+    const names: EnvVar<string[]> = list();
+    expect(names.validate('a,b')).toEqual({ ok: true, value: ['a', 'b'] });
+    expect(list(port()).validate('80,http')).toEqual({
+      ok: false,
+      error: 'item 1: "http" is not a valid port',
+    });
+    expect(list(port(), { min: 1 }).validate(' ').ok).toBe(false);
+    expect(
+      list(port(), { delimiter: ' ', unique: true }).validate('80 443 80'),
+    ).toEqual({
+      ok: true,
+      value: [80, 443],
+    });
+    expect(list(port(), { delimiter: ';' }).meta.expected).toBe(
+      'a list separated by ";" of a port number between 1 and 65535',
+    );
+  });
+
+  it('should support custom validators', () => {
+    const hexColor = () =>
+      makeValidator('hex-color', 'a color such as #ff0000', (raw) => {
+        if (!/^#[0-9a-f]{6}$/i.test(raw))
+          throw new Error(`"${raw}" is not a hex color`);
+        return raw.toLowerCase();
+      });
+
+    expect(hexColor().validate('#FF0000')).toEqual({ ok: true, value: '#ff0000' });
+    expect(hexColor().default('#000000').meta.default).toBe('#000000');
+  });
+});
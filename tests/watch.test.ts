@@ -0,0 +1,208 @@
+import fs, { mkdtempSync, rmSync, writeFileSync, type FSWatcher } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { env } from '../lib/env';
+import { EnvValidationError } from '../lib/errors';
+import { getEnvSource } from '../lib/sources';
+import { int, str } from '../lib/validators';
+import { diffEnv, watchEnv, type EnvDiff, type EnvWatcher } from '../lib/watch';
+
+describe('watch/diffEnv', () => {
+  it('should list added, changed and removed keys with secrets redacted', () => {
+    expect(
+      diffEnv(
+        { PORT: '3000', API_TOKEN: 'old', DEBUG: '1' },
+        { PORT: '3000', API_TOKEN: 'new', HOST: 'localhost' },
+      ),
+    ).toEqual({
+      added: ['HOST'],
+      changed: ['API_TOKEN'],
+      removed: ['DEBUG'],
+      changes: [
+        { key: 'HOST', type: 'added', value: 'localhost' },
+        {
+          key: 'API_TOKEN',
+          type: 'changed',
+          previous: '[REDACTED]',
+          value: '[REDACTED]',
+        },
+        { key: 'DEBUG', type: 'removed', previous: '1' },
+      ],
+    });
+  });
+});
+
+describe('watch/watchEnv', () => {
+  let dir: string;
+  let file: string;
+  let watcher: EnvWatcher | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'env-x-'));
+    file = join(dir, '.env');
+    writeFileSync(file, 'WATCH_PORT=3000\nWATCH_NAME=app');
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should expand references across files against the new values', () => {
+    writeFileSync(file, 'W_HOST=a\nW_URL=http://${W_HOST}');
+    const local = join(dir, '.env.local');
+    watcher = watchEnv([file, local], undefined, { expand: true });
+    expect(watcher.values.W_URL).toBe('http://a');
+
+    writeFileSync(file, 'W_HOST=b\nW_URL=http://${W_HOST}');
+    expect(watcher.reload()).toBe(true);
+    expect(watcher.values).toEqual({ W_HOST: 'b', W_URL: 'http://b' });
+
+    writeFileSync(local, 'W_HOST=c');
+    expect(watcher.reload()).toBe(true);
+    expect(watcher.values).toEqual({ W_HOST: 'c', W_URL: 'http://c' });
+    expect(env('W_URL')).toBe('http://c');
+  });
+
+  it('should install the files as the active source and restore it on close', () => {
+    const previous = getEnvSource();
+    watcher = watchEnv(file);
+
+    expect(env('WATCH_PORT')).toBe(3000);
+    expect(watcher.values).toEqual({ WATCH_PORT: '3000', WATCH_NAME: 'app' });
+
+    watcher.close();
+    expect(getEnvSource()).toBe(previous);
+    expect(env('WATCH_PORT')).toBeUndefined();
+  });
+
+  it('should emit diffs to the callback and key subscribers', () => {
+    const diffs: EnvDiff[] = [];
+    const ports: (string | undefined)[] = [];
+    watcher = watchEnv(file, (diff) => diffs.push(diff));
+    watcher.subscribeKey('WATCH_PORT', (change) => ports.push(change.value));
+    const unsubscribe = watcher.subscribeKey('WATCH_NAME', () => {
+      throw new Error('unsubscribed listener called');
+    });
+    unsubscribe();
+
+    writeFileSync(file, 'WATCH_PORT=4000\nWATCH_DEBUG=true');
+    expect(watcher.reload()).toBe(true);
+
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]).toMatchObject({
+      added: ['WATCH_DEBUG'],
+      changed: ['WATCH_PORT'],
+      removed: ['WATCH_NAME'],
+    });
+    expect(ports).toEqual(['4000']);
+    expect(env('WATCH_PORT')).toBe(4000);
+
+    expect(watcher.reload()).toBe(true);
+    expect(diffs).toHaveLength(1);
+  });
+
+  it('should pass real values to key subscribers and redact diffs', () => {
+    const diffs: EnvDiff[] = [];
+    const tokens: (string | undefined)[] = [];
+    writeFileSync(file, 'WATCH_TOKEN=old');
+    watcher = watchEnv(file, (diff) => diffs.push(diff));
+    watcher.subscribeKey('WATCH_TOKEN', (change) =>
+      tokens.push(change.previous, change.value),
+    );
+
+    writeFileSync(file, 'WATCH_TOKEN=new');
+    watcher.reload();
+
+    expect(tokens).toEqual(['old', 'new']);
+    expect(diffs[0].changes[0]).toMatchObject({
+      previous: '[REDACTED]',
+      value: '[REDACTED]',
+    });
+  });
+
+  it('should report throwing listeners and keep notifying the others', () => {
+    const errors: Error[] = [];
+    const ports: (string | undefined)[] = [];
+    watcher = watchEnv(
+      file,
+      () => {
+        throw new Error('callback failed');
+      },
+      { onError: (error) => errors.push(error) },
+    );
+    watcher.subscribe(() => {
+      throw new Error('listener failed');
+    });
+    watcher.subscribeKey('WATCH_PORT', (change) => ports.push(change.value));
+
+    writeFileSync(file, 'WATCH_PORT=4000\nWATCH_NAME=app');
+    expect(watcher.reload()).toBe(true);
+
+    expect(errors.map((error) => error.message)).toEqual([
+      'callback failed',
+      'listener failed',
+    ]);
+    expect(ports).toEqual(['4000']);
+  });
+
+  it('should keep the last good configuration when a reload is invalid', () => {
+    const errors: Error[] = [];
+    watcher = watchEnv(file, undefined, {
+      schema: { WATCH_PORT: int(), WATCH_NAME: str() },
+      onError: (error) => errors.push(error),
+    });
+
+    writeFileSync(file, 'WATCH_PORT=abc\nWATCH_NAME=next');
+    expect(watcher.reload()).toBe(false);
+    expect(errors[0]).toBeInstanceOf(EnvValidationError);
+    expect(env('WATCH_NAME')).toBe('app');
+
+    writeFileSync(file, 'WATCH_PORT="unterminated');
+    expect(watcher.reload()).toBe(false);
+    expect(errors).toHaveLength(2);
+    expect(watcher.values).toEqual({ WATCH_PORT: '3000', WATCH_NAME: 'app' });
+  });
+
+  it('should skip missing files and pick them up once created', () => {
+    const local = join(dir, '.env.local');
+    watcher = watchEnv([file, local]);
+    expect(watcher.values).toEqual({ WATCH_PORT: '3000', WATCH_NAME: 'app' });
+
+    writeFileSync(local, 'WATCH_PORT=4000');
+    expect(watcher.reload()).toBe(true);
+    expect(env('WATCH_PORT')).toBe(4000);
+
+    rmSync(local);
+    expect(watcher.reload()).toBe(true);
+    expect(env('WATCH_PORT')).toBe(3000);
+  });
+
+  it('should report watcher errors', () => {
+    const errors: Error[] = [];
+    const spy = jest.spyOn(fs, 'watch');
+    watcher = watchEnv(file, undefined, {
+      onError: (error) => errors.push(error),
+    });
+    const [fsWatcher] = spy.mock.results.map((result) => result.value as FSWatcher);
+    spy.mockRestore();
+
+    fsWatcher.emit('error', new Error('EPERM'));
+    expect(errors.map((error) => error.message)).toEqual([
+      `Cannot watch ${dir}: EPERM`,
+    ]);
+  });
+
+  it('should reload after the file changes on disk', async () => {
+    const changed = new Promise<EnvDiff>((done) => {
+      watcher = watchEnv(file, done, { debounce: 20 });
+    });
+
+    writeFileSync(file, 'WATCH_PORT=5000\nWATCH_NAME=app');
+
+    await expect(changed).resolves.toMatchObject({ changed: ['WATCH_PORT'] });
+    expect(env('WATCH_PORT')).toBe(5000);
+  });
+});